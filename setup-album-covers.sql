@@ -0,0 +1,29 @@
+-- Album Covers Setup
+-- Run this SQL in your Supabase SQL editor
+-- Requires setup-albums-schema.sql
+
+-- The photo chosen to represent an album on its card, at the top of its
+-- shared page and in link previews. NULL means the album's first photo.
+ALTER TABLE albums
+ADD COLUMN IF NOT EXISTS cover_photo_id UUID REFERENCES photos(id) ON DELETE SET NULL;
+
+-- Taking the cover out of an album goes back to using the first photo
+CREATE OR REPLACE FUNCTION clear_removed_album_cover()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE albums
+  SET cover_photo_id = NULL
+  WHERE id = OLD.album_id
+  AND cover_photo_id = OLD.photo_id;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS clear_removed_album_cover ON album_photos;
+CREATE TRIGGER clear_removed_album_cover
+  AFTER DELETE ON album_photos
+  FOR EACH ROW
+  EXECUTE FUNCTION clear_removed_album_cover();
+
+-- Verify setup
+SELECT 'Album cover column created' as status;
@@ -0,0 +1,128 @@
+-- Album Ordering Setup
+-- Run this SQL in your Supabase SQL editor
+-- Requires setup-albums-schema.sql
+
+-- Both functions lock the album row first, so two people reordering or
+-- adding to the same album take turns instead of writing clashing
+-- positions. Positions are renumbered 1..n inside the transaction, so
+-- they never need gaps. Each returns the album's order afterwards; since
+-- those columns share album_photos' names, use_column makes unqualified
+-- names in the body mean the table's columns.
+
+-- ===== REORDER =====
+-- p_album_photo_ids is the album_photos IDs in their new order. Rows it
+-- leaves out (e.g. trashed photos the page doesn't show, or photos
+-- someone else just added) keep their order after the listed ones.
+CREATE OR REPLACE FUNCTION reorder_album_photos(p_album_id UUID, p_album_photo_ids UUID[])
+RETURNS TABLE (
+  id UUID,
+  photo_id UUID,
+  position INTEGER
+) AS $$
+#variable_conflict use_column
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM family_members fm
+    WHERE fm.user_id = auth.uid()
+    AND fm.status = 'active'
+  ) THEN
+    RAISE EXCEPTION 'You must be an active family member to reorder albums';
+  END IF;
+
+  PERFORM 1 FROM albums a WHERE a.id = p_album_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Album not found';
+  END IF;
+
+  UPDATE album_photos ap
+  SET position = ordering.new_position
+  FROM (
+    SELECT
+      existing_row.id,
+      ROW_NUMBER() OVER (
+        ORDER BY array_position(p_album_photo_ids, existing_row.id) NULLS LAST, existing_row.position, existing_row.added_at
+      )::INTEGER AS new_position
+    FROM album_photos existing_row
+    WHERE existing_row.album_id = p_album_id
+  ) ordering
+  WHERE ap.id = ordering.id
+  AND ap.position IS DISTINCT FROM ordering.new_position;
+
+  RETURN QUERY
+  SELECT ap.id, ap.photo_id, ap.position
+  FROM album_photos ap
+  WHERE ap.album_id = p_album_id
+  ORDER BY ap.position;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ===== APPEND =====
+-- Adds photos to the end of an album in the order given. Photos already
+-- in the album (or listed twice) are skipped and keep their place.
+-- added is true for the rows this call inserted, so callers can tell
+-- which photos were already there without a second request.
+-- Dropped first because an earlier version returned no added column.
+DROP FUNCTION IF EXISTS append_album_photos(UUID, UUID[]);
+
+CREATE OR REPLACE FUNCTION append_album_photos(p_album_id UUID, p_photo_ids UUID[])
+RETURNS TABLE (
+  id UUID,
+  photo_id UUID,
+  position INTEGER,
+  added BOOLEAN
+) AS $$
+#variable_conflict use_column
+DECLARE
+  v_last_position INTEGER;
+  v_added_ids UUID[];
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM family_members fm
+    WHERE fm.user_id = auth.uid()
+    AND fm.status = 'active'
+  ) THEN
+    RAISE EXCEPTION 'You must be an active family member to add photos to albums';
+  END IF;
+
+  PERFORM 1 FROM albums a WHERE a.id = p_album_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Album not found';
+  END IF;
+
+  SELECT COALESCE(MAX(ap.position), 0) INTO v_last_position
+  FROM album_photos ap
+  WHERE ap.album_id = p_album_id;
+
+  WITH inserted AS (
+    INSERT INTO album_photos (album_id, photo_id, added_by, position)
+    SELECT
+      p_album_id,
+      new_photos.photo_id,
+      auth.uid(),
+      v_last_position + ROW_NUMBER() OVER (ORDER BY new_photos.first_index)::INTEGER
+    FROM (
+      SELECT given.photo_id, MIN(given.index) AS first_index
+      FROM unnest(p_photo_ids) WITH ORDINALITY AS given(photo_id, index)
+      WHERE NOT EXISTS (
+        SELECT 1 FROM album_photos existing
+        WHERE existing.album_id = p_album_id
+        AND existing.photo_id = given.photo_id
+      )
+      GROUP BY given.photo_id
+    ) new_photos
+    ON CONFLICT (album_id, photo_id) DO NOTHING
+    RETURNING album_photos.id
+  )
+  SELECT array_agg(inserted.id) INTO v_added_ids FROM inserted;
+
+  RETURN QUERY
+  SELECT ap.id, ap.photo_id, ap.position, COALESCE(ap.id = ANY(v_added_ids), FALSE)
+  FROM album_photos ap
+  WHERE ap.album_id = p_album_id
+  ORDER BY ap.position;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Verify setup
+SELECT 'Album reorder function created' as status;
+SELECT 'Album append function created' as status;
@@ -0,0 +1,128 @@
+-- Caption Editing Setup
+-- Run this SQL in your Supabase SQL editor
+
+-- ===== FAMILY SETTINGS =====
+-- A single row of family-wide preferences, editable by any active member
+CREATE TABLE IF NOT EXISTS family_settings (
+  id BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),
+  -- 'owner': only the uploader can change a caption
+  -- 'members': any active family member can change any caption
+  caption_edit_policy TEXT NOT NULL DEFAULT 'owner'
+    CHECK (caption_edit_policy IN ('owner', 'members')),
+  updated_by UUID REFERENCES auth.users(id),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+INSERT INTO family_settings (id) VALUES (true) ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE family_settings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Active family members can view settings" ON family_settings;
+CREATE POLICY "Active family members can view settings" ON family_settings
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM family_members fm
+      WHERE fm.user_id = auth.uid()
+      AND fm.status = 'active'
+    )
+  );
+
+DROP POLICY IF EXISTS "Active family members can update settings" ON family_settings;
+CREATE POLICY "Active family members can update settings" ON family_settings
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM family_members fm
+      WHERE fm.user_id = auth.uid()
+      AND fm.status = 'active'
+    )
+  );
+
+DROP TRIGGER IF EXISTS update_family_settings_updated_at ON family_settings;
+CREATE TRIGGER update_family_settings_updated_at
+  BEFORE UPDATE ON family_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ===== CAPTION HISTORY =====
+-- Every caption change is recorded so corrections never lose the original
+CREATE TABLE IF NOT EXISTS photo_caption_history (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  photo_id UUID REFERENCES photos(id) ON DELETE CASCADE NOT NULL,
+  previous_caption TEXT,
+  new_caption TEXT,
+  edited_by UUID REFERENCES auth.users(id) NOT NULL,
+  edited_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_photo_caption_history_photo_id
+  ON photo_caption_history(photo_id, edited_at DESC);
+
+ALTER TABLE photo_caption_history ENABLE ROW LEVEL SECURITY;
+
+-- History is read-only from the client; rows are only written by
+-- update_photo_caption below
+DROP POLICY IF EXISTS "Active family members can view caption history" ON photo_caption_history;
+CREATE POLICY "Active family members can view caption history" ON photo_caption_history
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM family_members fm
+      WHERE fm.user_id = auth.uid()
+      AND fm.status = 'active'
+    )
+  );
+
+-- ===== CAPTION UPDATE FUNCTION =====
+-- Changes a caption and records the edit in one transaction. Runs as
+-- SECURITY DEFINER so non-owners can edit when the family allows it,
+-- which the owner-only photos update policy would otherwise block.
+CREATE OR REPLACE FUNCTION update_photo_caption(p_photo_id UUID, p_caption TEXT)
+RETURNS SETOF photos AS $$
+DECLARE
+  v_policy TEXT;
+  v_photo photos%ROWTYPE;
+  v_caption TEXT := NULLIF(BTRIM(p_caption), '');
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM family_members fm
+    WHERE fm.user_id = auth.uid()
+    AND fm.status = 'active'
+  ) THEN
+    RAISE EXCEPTION 'You must be an active family member to edit captions';
+  END IF;
+
+  SELECT * INTO v_photo FROM photos WHERE id = p_photo_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Photo not found';
+  END IF;
+
+  SELECT caption_edit_policy INTO v_policy FROM family_settings LIMIT 1;
+  IF COALESCE(v_policy, 'owner') = 'owner' AND v_photo.uploaded_by <> auth.uid() THEN
+    RAISE EXCEPTION 'Only the person who uploaded this photo can edit its caption';
+  END IF;
+
+  IF v_photo.caption IS NOT DISTINCT FROM v_caption THEN
+    RETURN NEXT v_photo;
+    RETURN;
+  END IF;
+
+  INSERT INTO photo_caption_history (photo_id, previous_caption, new_caption, edited_by)
+  VALUES (p_photo_id, v_photo.caption, v_caption, auth.uid());
+
+  RETURN QUERY
+    UPDATE photos
+    SET caption = v_caption, updated_at = NOW()
+    WHERE id = p_photo_id
+    RETURNING *;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Verify setup
+SELECT 'Family settings table created' as status;
+SELECT 'Caption history table created' as status;
+SELECT 'Caption update function created' as status;
@@ -0,0 +1,218 @@
+-- Duplicate Finder Setup
+-- Run this SQL in your Supabase SQL editor
+-- Requires setup-photo-duplicates.sql and setup-album-covers.sql
+
+-- ===== DUPLICATE PAIRS =====
+-- Every pair of live photos that are the same file, or whose perceptual
+-- hashes are within p_max_distance bits. The /duplicates page groups the
+-- pairs into clusters.
+--
+-- Comparing every photo with every other one is too slow for a whole
+-- library, so candidates are found by equality joins first. Each hash is
+-- cut into 8 bands of 8 bits; two hashes at most 7 bits apart can't
+-- differ in every band, so they share at least one band exactly. That's
+-- why p_max_distance is capped at 7.
+CREATE OR REPLACE FUNCTION get_duplicate_photo_pairs(p_max_distance INTEGER DEFAULT 6)
+RETURNS TABLE (
+  photo_id UUID,
+  duplicate_id UUID,
+  distance INTEGER
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  WITH live AS (
+    SELECT p.id, p.content_hash, p.perceptual_hash
+    FROM photos p
+    WHERE p.deleted_at IS NULL
+  ),
+  bands AS (
+    SELECT live.id, band.n, substr(live.perceptual_hash, band.n * 2 + 1, 2) AS value
+    FROM live
+    CROSS JOIN generate_series(0, 7) AS band(n)
+    WHERE live.perceptual_hash IS NOT NULL
+  ),
+  candidates AS (
+    -- Identical files, including ones that couldn't be decoded for a
+    -- perceptual hash
+    SELECT a.id AS first_id, b.id AS second_id
+    FROM live a
+    JOIN live b ON b.content_hash = a.content_hash AND a.id < b.id
+    UNION
+    SELECT a.id, b.id
+    FROM bands a
+    JOIN bands b ON b.n = a.n AND b.value = a.value AND a.id < b.id
+  )
+  SELECT
+    a.id,
+    b.id,
+    CASE
+      WHEN a.content_hash = b.content_hash THEN 0
+      ELSE perceptual_hash_distance(a.perceptual_hash, b.perceptual_hash)
+    END
+  FROM candidates c
+  JOIN live a ON a.id = c.first_id
+  JOIN live b ON b.id = c.second_id
+  WHERE a.content_hash = b.content_hash
+  OR perceptual_hash_distance(a.perceptual_hash, b.perceptual_hash) <= LEAST(p_max_distance, 7)
+$$;
+
+-- ===== HASH BACKFILL =====
+-- Photos uploaded before hashes existed are hashed in the browser from
+-- their thumbnail. Any member can fill in a missing hash, but never
+-- change one that's already set.
+-- perceptual_hash_failed_at marks photos whose thumbnail couldn't be
+-- hashed, so the backfill stops picking them up again.
+ALTER TABLE photos
+ADD COLUMN IF NOT EXISTS perceptual_hash_failed_at TIMESTAMPTZ;
+
+CREATE OR REPLACE FUNCTION set_photo_perceptual_hash(p_photo_id UUID, p_perceptual_hash TEXT)
+RETURNS VOID AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM family_members fm
+    WHERE fm.user_id = auth.uid()
+    AND fm.status = 'active'
+  ) THEN
+    RAISE EXCEPTION 'You must be an active family member to scan photos';
+  END IF;
+
+  IF p_perceptual_hash !~ '^[0-9a-f]{16}$' THEN
+    RAISE EXCEPTION 'Invalid perceptual hash';
+  END IF;
+
+  UPDATE photos
+  SET perceptual_hash = p_perceptual_hash
+  WHERE id = p_photo_id
+  AND perceptual_hash IS NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION mark_perceptual_hash_failed(p_photo_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM family_members fm
+    WHERE fm.user_id = auth.uid()
+    AND fm.status = 'active'
+  ) THEN
+    RAISE EXCEPTION 'You must be an active family member to scan photos';
+  END IF;
+
+  UPDATE photos
+  SET perceptual_hash_failed_at = NOW()
+  WHERE id = p_photo_id
+  AND perceptual_hash IS NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ===== MERGE =====
+-- Moves comments, reactions and album memberships from the duplicates onto
+-- the kept photo, then trashes the duplicates, all in one transaction.
+-- Runs as SECURITY DEFINER because those rows (and the duplicates
+-- themselves) usually belong to other people. That's only safe because
+-- every duplicate must match the kept photo the same way
+-- get_duplicate_photo_pairs does, so it can't trash anything else.
+--
+-- Reactions: someone who reacted to both keeps their reaction on the kept
+-- photo. Albums: a duplicate's place in an album goes to the kept photo
+-- unless it's already in that album. Anything left over stays with the
+-- trashed duplicate, so restoring it brings it back.
+CREATE OR REPLACE FUNCTION merge_duplicate_photos(p_keep_id UUID, p_duplicate_ids UUID[])
+RETURNS SETOF photos AS $$
+DECLARE
+  v_keep RECORD;
+  v_duplicate_ids UUID[];
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM family_members fm
+    WHERE fm.user_id = auth.uid()
+    AND fm.status = 'active'
+  ) THEN
+    RAISE EXCEPTION 'You must be an active family member to merge photos';
+  END IF;
+
+  SELECT content_hash, perceptual_hash INTO v_keep
+  FROM photos
+  WHERE id = p_keep_id
+  AND deleted_at IS NULL
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Photo to keep not found';
+  END IF;
+
+  SELECT array_agg(id) INTO v_duplicate_ids
+  FROM (
+    SELECT id FROM photos
+    WHERE id = ANY(p_duplicate_ids)
+    AND id <> p_keep_id
+    AND deleted_at IS NULL
+    FOR UPDATE
+  ) duplicates;
+
+  IF v_duplicate_ids IS NULL THEN
+    RAISE EXCEPTION 'No duplicates to merge';
+  END IF;
+
+  -- Same threshold as get_duplicate_photo_pairs' default
+  IF EXISTS (
+    SELECT 1 FROM photos d
+    WHERE d.id = ANY(v_duplicate_ids)
+    AND NOT COALESCE(d.content_hash = v_keep.content_hash, FALSE)
+    AND NOT COALESCE(perceptual_hash_distance(d.perceptual_hash, v_keep.perceptual_hash) <= 6, FALSE)
+  ) THEN
+    RAISE EXCEPTION 'Only duplicates of the kept photo can be merged into it';
+  END IF;
+
+  UPDATE comments
+  SET photo_id = p_keep_id
+  WHERE photo_id = ANY(v_duplicate_ids);
+
+  -- One reaction per person: the kept photo's own, else their earliest
+  UPDATE reactions r
+  SET photo_id = p_keep_id
+  WHERE r.id IN (
+    SELECT DISTINCT ON (user_id) id
+    FROM reactions
+    WHERE photo_id = ANY(v_duplicate_ids)
+    ORDER BY user_id, created_at
+  )
+  AND NOT EXISTS (
+    SELECT 1 FROM reactions kept
+    WHERE kept.photo_id = p_keep_id
+    AND kept.user_id = r.user_id
+  );
+
+  -- One place per album, the earliest position among the duplicates
+  UPDATE album_photos ap
+  SET photo_id = p_keep_id
+  WHERE ap.id IN (
+    SELECT DISTINCT ON (album_id) id
+    FROM album_photos
+    WHERE photo_id = ANY(v_duplicate_ids)
+    ORDER BY album_id, position, added_at
+  )
+  AND NOT EXISTS (
+    SELECT 1 FROM album_photos kept
+    WHERE kept.photo_id = p_keep_id
+    AND kept.album_id = ap.album_id
+  );
+
+  -- Albums that chose a duplicate as their cover keep it, as the kept photo
+  UPDATE albums
+  SET cover_photo_id = p_keep_id
+  WHERE cover_photo_id = ANY(v_duplicate_ids);
+
+  UPDATE photos
+  SET deleted_at = NOW()
+  WHERE id = ANY(v_duplicate_ids);
+
+  RETURN QUERY SELECT * FROM photos WHERE id = p_keep_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Verify setup
+SELECT 'Duplicate pairs function created' as status;
+SELECT 'Perceptual hash backfill functions created' as status;
+SELECT 'Duplicate merge function created' as status;
@@ -0,0 +1,75 @@
+-- Photo Duplicates Setup
+-- Run this SQL in your Supabase SQL editor
+
+-- Hashes made at upload to spot the same photo being uploaded twice.
+-- content_hash: SHA-256 of the original file, for byte-identical copies.
+-- perceptual_hash: 64-bit difference hash (16 hex chars) of the image,
+-- which stays close when a photo has been re-compressed or resized,
+-- e.g. when it's been forwarded through WhatsApp.
+ALTER TABLE photos
+ADD COLUMN IF NOT EXISTS content_hash TEXT,
+ADD COLUMN IF NOT EXISTS perceptual_hash TEXT;
+
+CREATE INDEX IF NOT EXISTS photos_content_hash_idx ON photos (content_hash);
+
+-- Number of bits that differ between two perceptual hashes
+CREATE OR REPLACE FUNCTION perceptual_hash_distance(a TEXT, b TEXT)
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT bit_count(('x' || a)::bit(64) # ('x' || b)::bit(64))::INTEGER
+$$;
+
+-- For each (content hash, perceptual hash) pair passed in, the closest
+-- existing photo that is identical or within p_max_distance bits.
+-- input_index is the 0-based position of the pair in the arrays.
+-- Runs as the caller, so only photos they can see are matched.
+CREATE OR REPLACE FUNCTION find_duplicate_photos(
+  p_content_hashes TEXT[],
+  p_perceptual_hashes TEXT[],
+  p_max_distance INTEGER DEFAULT 6
+)
+RETURNS TABLE (
+  input_index INTEGER,
+  photo_id UUID,
+  exact BOOLEAN,
+  distance INTEGER
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  SELECT DISTINCT ON (matches.idx)
+    (matches.idx - 1)::INTEGER,
+    matches.id,
+    matches.exact,
+    matches.distance
+  FROM (
+    SELECT
+      input.idx,
+      p.id,
+      p.uploaded_at,
+      p.content_hash = input.content_hash AS exact,
+      CASE
+        WHEN p.content_hash = input.content_hash THEN 0
+        ELSE perceptual_hash_distance(p.perceptual_hash, input.perceptual_hash)
+      END AS distance
+    FROM unnest(p_content_hashes, p_perceptual_hashes)
+      WITH ORDINALITY AS input(content_hash, perceptual_hash, idx)
+    JOIN photos p
+      ON p.deleted_at IS NULL
+      AND (
+        p.content_hash = input.content_hash
+        OR (
+          p.perceptual_hash IS NOT NULL
+          AND input.perceptual_hash IS NOT NULL
+          AND perceptual_hash_distance(p.perceptual_hash, input.perceptual_hash) <= p_max_distance
+        )
+      )
+  ) matches
+  ORDER BY matches.idx, matches.distance, matches.uploaded_at
+$$;
+
+-- Verify setup
+SELECT 'Photo duplicate detection created' as status;
@@ -0,0 +1,25 @@
+-- Photo Metadata Setup
+-- Run this SQL in your Supabase SQL editor
+
+-- Camera metadata is read from EXIF in the browser before compression
+-- strips it, and saved alongside the photo. Everything is optional:
+-- screenshots and scans usually have no EXIF at all, and location is
+-- only stored when the uploader opts in.
+ALTER TABLE photos
+ADD COLUMN IF NOT EXISTS taken_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS camera_make TEXT,
+ADD COLUMN IF NOT EXISTS camera_model TEXT,
+ADD COLUMN IF NOT EXISTS lens_model TEXT,
+ADD COLUMN IF NOT EXISTS width INTEGER,
+ADD COLUMN IF NOT EXISTS height INTEGER,
+ADD COLUMN IF NOT EXISTS exposure_time DOUBLE PRECISION, -- seconds
+ADD COLUMN IF NOT EXISTS f_number DOUBLE PRECISION,
+ADD COLUMN IF NOT EXISTS iso INTEGER,
+ADD COLUMN IF NOT EXISTS focal_length DOUBLE PRECISION, -- millimetres
+ADD COLUMN IF NOT EXISTS gps_latitude DOUBLE PRECISION,
+ADD COLUMN IF NOT EXISTS gps_longitude DOUBLE PRECISION;
+
+CREATE INDEX IF NOT EXISTS idx_photos_taken_at ON photos(taken_at);
+
+-- Verify setup
+SELECT 'Photo metadata columns created' as status;
@@ -0,0 +1,13 @@
+-- Photo Originals Setup
+-- Run this SQL in your Supabase SQL editor
+
+-- When the uploader ticks "also keep originals", the untouched file is
+-- stored under {user_id}/originals/ next to the compressed copies, so it
+-- can be downloaded for printing. NULL when only the compressed copy was
+-- kept. Videos are always stored as uploaded, so they never need one.
+ALTER TABLE photos
+ADD COLUMN IF NOT EXISTS original_path TEXT,
+ADD COLUMN IF NOT EXISTS original_file_size BIGINT;
+
+-- Verify setup
+SELECT 'Photo original columns created' as status;
@@ -0,0 +1,14 @@
+-- Photo Feed Pagination Setup
+-- Run this SQL in your Supabase SQL editor
+
+-- The home gallery pages through photos newest first using a keyset cursor
+-- on (uploaded_at, id). This index lets each page be read without scanning
+-- or sorting the whole photos table.
+CREATE INDEX IF NOT EXISTS idx_photos_uploaded_at_id
+  ON photos (uploaded_at DESC, id DESC);
+
+-- Reactions are now loaded one page of photos at a time
+CREATE INDEX IF NOT EXISTS idx_reactions_photo_id ON reactions(photo_id);
+
+-- Verify setup
+SELECT 'Photo pagination index created' as status;
@@ -0,0 +1,10 @@
+-- Photo Placeholders Setup
+-- Run this SQL in your Supabase SQL editor
+
+-- A tiny (16px) JPEG data URL made at upload, shown blurred in grids
+-- while the real thumbnail loads. Older photos just show a grey tile.
+ALTER TABLE photos
+ADD COLUMN IF NOT EXISTS placeholder TEXT;
+
+-- Verify setup
+SELECT 'Photo placeholder column created' as status;
@@ -0,0 +1,133 @@
+-- Photo Search Setup
+-- Run this SQL in your Supabase SQL editor (after setup-photo-timeline.sql)
+
+-- ===== SEARCH VECTORS =====
+-- Each searchable table keeps its own generated tsvector so the index
+-- stays up to date without triggers. Names use the 'simple' config
+-- because they shouldn't be stemmed like English words.
+
+ALTER TABLE photos
+ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (to_tsvector('english', COALESCE(caption, ''))) STORED;
+
+ALTER TABLE comments
+ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (to_tsvector('english', COALESCE(comment_text, ''))) STORED;
+
+ALTER TABLE albums
+ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', COALESCE(name, '')), 'A') ||
+    setweight(to_tsvector('english', COALESCE(description, '')), 'B')
+  ) STORED;
+
+ALTER TABLE profiles
+ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (to_tsvector('simple', COALESCE(full_name, ''))) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_photos_search ON photos USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_comments_search ON comments USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_albums_search ON albums USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_profiles_search ON profiles USING GIN (search_vector);
+
+-- ===== SEARCH FUNCTIONS =====
+-- Both functions are SECURITY INVOKER so the usual RLS policies decide
+-- what each person can find. Matches in headlines are wrapped in the
+-- control characters chr(1) and chr(2) rather than HTML, so captions
+-- and comments never have to be rendered as markup.
+
+-- Photos whose caption, comments or uploader name match the query.
+-- Each photo appears once, with the headline of its best match.
+CREATE OR REPLACE FUNCTION search_photos(
+  p_query TEXT,
+  p_uploaded_by UUID DEFAULT NULL,
+  p_from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_to TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_limit INTEGER DEFAULT 48
+)
+RETURNS TABLE (photo_id UUID, matched_in TEXT, headline TEXT, rank REAL) AS $$
+  WITH q AS (
+    SELECT
+      websearch_to_tsquery('english', p_query) AS english,
+      websearch_to_tsquery('simple', p_query) AS simple,
+      'StartSel=' || chr(1) || ', StopSel=' || chr(2) ||
+        ', MaxWords=20, MinWords=8, MaxFragments=2' AS options
+  ),
+  matches AS (
+    SELECT p.id, 'caption' AS matched_in,
+      ts_headline('english', p.caption, q.english, q.options) AS headline,
+      ts_rank(p.search_vector, q.english) AS rank
+    FROM photos p, q
+    WHERE p.search_vector @@ q.english
+
+    UNION ALL
+
+    -- Comments count for a bit less than the photo's own caption
+    SELECT c.photo_id, 'comment',
+      ts_headline('english', c.comment_text, q.english, q.options),
+      ts_rank(c.search_vector, q.english) * 0.8
+    FROM comments c, q
+    WHERE c.search_vector @@ q.english
+
+    UNION ALL
+
+    SELECT p.id, 'uploader',
+      ts_headline('simple', pr.full_name, q.simple, q.options || ', HighlightAll=true'),
+      ts_rank(pr.search_vector, q.simple) * 0.5
+    FROM photos p
+    JOIN profiles pr ON pr.id = p.uploaded_by, q
+    WHERE pr.search_vector @@ q.simple
+  ),
+  best AS (
+    SELECT DISTINCT ON (m.id) m.*
+    FROM matches m
+    ORDER BY m.id, m.rank DESC
+  )
+  SELECT b.id, b.matched_in, b.headline, b.rank
+  FROM best b
+  JOIN photos p ON p.id = b.id
+  WHERE p.deleted_at IS NULL
+    AND (p_uploaded_by IS NULL OR p.uploaded_by = p_uploaded_by)
+    AND (p_from IS NULL OR p.photo_date >= p_from)
+    AND (p_to IS NULL OR p.photo_date < p_to)
+  ORDER BY b.rank DESC, p.photo_date DESC
+  LIMIT p_limit;
+$$ LANGUAGE sql STABLE SECURITY INVOKER;
+
+-- Albums whose name or description match the query
+CREATE OR REPLACE FUNCTION search_albums(
+  p_query TEXT,
+  p_created_by UUID DEFAULT NULL,
+  p_from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_to TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_limit INTEGER DEFAULT 12
+)
+RETURNS TABLE (
+  album_id UUID,
+  name_headline TEXT,
+  description_headline TEXT,
+  rank REAL
+) AS $$
+  WITH q AS (
+    SELECT
+      websearch_to_tsquery('english', p_query) AS english,
+      'StartSel=' || chr(1) || ', StopSel=' || chr(2) ||
+        ', MaxWords=20, MinWords=8, MaxFragments=2' AS options
+  )
+  SELECT
+    a.id,
+    ts_headline('english', a.name, q.english, q.options || ', HighlightAll=true'),
+    ts_headline('english', COALESCE(a.description, ''), q.english, q.options),
+    ts_rank(a.search_vector, q.english)
+  FROM albums a, q
+  WHERE a.search_vector @@ q.english
+    AND (p_created_by IS NULL OR a.created_by = p_created_by)
+    AND (p_from IS NULL OR a.created_at >= p_from)
+    AND (p_to IS NULL OR a.created_at < p_to)
+  ORDER BY 4 DESC, a.created_at DESC
+  LIMIT p_limit;
+$$ LANGUAGE sql STABLE SECURITY INVOKER;
+
+-- Verify setup
+SELECT 'Search columns and indexes created' as status;
+SELECT 'Search functions created' as status;
@@ -0,0 +1,34 @@
+-- Photo Timeline Setup
+-- Run this SQL in your Supabase SQL editor (after setup-photo-metadata.sql)
+
+-- When a photo is "from": the date it was taken if the camera recorded
+-- one, otherwise the date it was uploaded. The timeline sorts and groups
+-- on this, so old scans uploaded today don't show up as new.
+ALTER TABLE photos
+ADD COLUMN IF NOT EXISTS photo_date TIMESTAMP WITH TIME ZONE
+  GENERATED ALWAYS AS (COALESCE(taken_at, uploaded_at)) STORED;
+
+-- Keyset pagination index for the timeline, mirroring the upload-order one
+CREATE INDEX IF NOT EXISTS idx_photos_live_photo_date_id
+  ON photos (photo_date DESC, id DESC)
+  WHERE deleted_at IS NULL;
+
+-- Years that have photos, for the timeline's year scrubber.
+-- p_time_zone is the viewer's IANA time zone (e.g. 'Europe/London'), so a
+-- photo from New Year's Eve lands in the same year the timeline shows it.
+-- SECURITY INVOKER so the usual photo policies still apply.
+-- Dropped first because an earlier version took no time zone.
+DROP FUNCTION IF EXISTS get_photo_years();
+
+CREATE OR REPLACE FUNCTION get_photo_years(p_time_zone TEXT DEFAULT 'UTC')
+RETURNS TABLE (year INTEGER, photo_count BIGINT) AS $$
+  SELECT EXTRACT(YEAR FROM photo_date AT TIME ZONE p_time_zone)::INTEGER AS year, COUNT(*) AS photo_count
+  FROM photos
+  WHERE deleted_at IS NULL
+  GROUP BY 1
+  ORDER BY 1 DESC;
+$$ LANGUAGE sql STABLE SECURITY INVOKER;
+
+-- Verify setup
+SELECT 'Photo timeline column created' as status;
+SELECT 'Photo years function created' as status;
@@ -0,0 +1,24 @@
+-- Photo Trash Setup
+-- Run this SQL in your Supabase SQL editor
+
+-- Deleting a photo only sets deleted_at. The photo disappears from the
+-- gallery and albums but can be restored from /trash until the daily purge
+-- job (/api/photos/purge) removes it after 30 days.
+ALTER TABLE photos
+ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE;
+
+-- The gallery only reads live photos
+CREATE INDEX IF NOT EXISTS idx_photos_live_uploaded_at_id
+  ON photos (uploaded_at DESC, id DESC)
+  WHERE deleted_at IS NULL;
+
+-- The purge job and trash page read trashed photos
+CREATE INDEX IF NOT EXISTS idx_photos_deleted_at
+  ON photos (deleted_at)
+  WHERE deleted_at IS NOT NULL;
+
+-- Uploaders trash and restore their own photos through the existing owner
+-- photo update policy, so no new policies are needed here.
+
+-- Verify setup
+SELECT 'Photo trash column created' as status;
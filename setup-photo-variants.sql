@@ -0,0 +1,12 @@
+-- Photo Variants Setup
+-- Run this SQL in your Supabase SQL editor
+
+-- Each upload is stored in three sizes: the full image at file_path,
+-- plus a medium copy for phones and a small thumbnail for grid tiles.
+-- Photos uploaded before this have neither and fall back to file_path.
+ALTER TABLE photos
+ADD COLUMN IF NOT EXISTS medium_path TEXT,
+ADD COLUMN IF NOT EXISTS thumbnail_path TEXT;
+
+-- Verify setup
+SELECT 'Photo variant columns created' as status;
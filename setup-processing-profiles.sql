@@ -0,0 +1,21 @@
+-- Processing Profiles Setup
+-- Run this SQL in your Supabase SQL editor
+-- Requires setup-caption-editing.sql (for the family_settings table)
+
+-- The profile new uploads start with. Uploaders can still pick another
+-- one for each batch on the upload page.
+ALTER TABLE family_settings
+ADD COLUMN IF NOT EXISTS default_processing_profile TEXT NOT NULL DEFAULT 'standard'
+  CHECK (default_processing_profile IN ('data_saver', 'standard', 'high_quality', 'webp', 'avif'));
+
+-- The profile each photo was compressed with. NULL for photos uploaded
+-- before profiles existed, which were all made the standard way.
+-- output_format is the MIME type actually stored, which differs from the
+-- profile's when the browser couldn't encode it (e.g. AVIF fell back to
+-- WebP). NULL for videos and for photos uploaded before it was recorded.
+ALTER TABLE photos
+ADD COLUMN IF NOT EXISTS processing_profile TEXT,
+ADD COLUMN IF NOT EXISTS output_format TEXT;
+
+-- Verify setup
+SELECT 'Processing profile columns created' as status;
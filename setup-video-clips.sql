@@ -0,0 +1,18 @@
+-- Video Clips Setup
+-- Run this SQL in your Supabase SQL editor
+
+-- Short video clips live in the photos table alongside photos. For a
+-- video, file_path is the clip itself and medium_path / thumbnail_path
+-- are JPEG poster frames, so grids and album covers work unchanged.
+ALTER TABLE photos
+ADD COLUMN IF NOT EXISTS media_type TEXT NOT NULL DEFAULT 'photo'
+  CHECK (media_type IN ('photo', 'video')),
+ADD COLUMN IF NOT EXISTS duration REAL; -- seconds, videos only
+
+-- Clips are limited to 50MB in the app. If the family-photos bucket has a
+-- lower file size limit, or only allows image MIME types, raise the limit
+-- and add video/mp4, video/quicktime and video/webm in
+-- Storage > family-photos > Edit bucket.
+
+-- Verify setup
+SELECT 'Video clip columns created' as status;
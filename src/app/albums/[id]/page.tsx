@@ -12,10 +12,20 @@ import {
   getAlbumPhotos, 
   deleteAlbum,
   updateAlbum,
+  reorderAlbumPhotos,
+  removePhotosFromAlbum,
   type Album,
   type AlbumPhoto 
 } from '@/lib/supabase/albums'
 import { getDisplayName, getAvatarUrl } from '@/lib/supabase/profiles'
+import { getPhotoVariantPath, getPlaceholderProps } from '@/lib/supabase/photos'
+import { getSignedUrls } from '@/lib/supabase/photoUrls'
+import PhotoPlaceholder from '@/components/PhotoPlaceholder'
+import SignedImage from '@/components/SignedImage'
+import VideoBadge from '@/components/VideoBadge'
+import AlbumReorderGrid from '@/components/AlbumReorderGrid'
+import AddPhotosToAlbumModal from '@/components/AddPhotosToAlbumModal'
+import SelectionCheck from '@/components/SelectionCheck'
 import { 
   ArrowLeft, 
   Share2, 
@@ -26,13 +36,36 @@ import {
   Calendar,
   User as UserIcon,
   Images,
-  Check
+  Check,
+  Upload,
+  ArrowUpDown,
+  ImagePlus,
+  CheckSquare,
+  ImageIcon
 } from 'lucide-react'
 
 interface PhotoWithUrl extends AlbumPhoto {
   imageUrl?: string | null
 }
 
+type SortPreset = 'taken' | 'uploaded' | 'reverse'
+
+const SORT_PRESETS: Record<SortPreset, string> = {
+  taken: 'Date taken, oldest first',
+  uploaded: 'Upload date, oldest first',
+  reverse: 'Reverse current order'
+}
+
+function sortAlbumPhotos(photos: PhotoWithUrl[], preset: SortPreset): PhotoWithUrl[] {
+  if (preset === 'reverse') {
+    return [...photos].reverse()
+  }
+  const key = preset === 'taken' ? 'photo_date' : 'uploaded_at'
+  return [...photos].sort((a, b) =>
+    new Date(a.photo?.[key] || 0).getTime() - new Date(b.photo?.[key] || 0).getTime()
+  )
+}
+
 export default function AlbumDetailPage() {
   const params = useParams()
   const albumId = params.id as string
@@ -47,6 +80,13 @@ export default function AlbumDetailPage() {
   const [editDescription, setEditDescription] = useState('')
   const [isSaving, setIsSaving] = useState(false)
   const [shareUrlCopied, setShareUrlCopied] = useState(false)
+  const [isReordering, setIsReordering] = useState(false)
+  const [savingOrder, setSavingOrder] = useState(false)
+  const [isSelecting, setIsSelecting] = useState(false)
+  const [selectedPhotoIds, setSelectedPhotoIds] = useState<Set<string>>(new Set())
+  const [isRemoving, setIsRemoving] = useState(false)
+  const [isSettingCover, setIsSettingCover] = useState(false)
+  const [showAddPhotosModal, setShowAddPhotosModal] = useState(false)
   const supabase = createClient()
 
   useEffect(() => {
@@ -89,29 +129,24 @@ export default function AlbumDetailPage() {
     setLoadingPhotos(true)
     try {
       const albumPhotos = await getAlbumPhotos(albumId)
+
+      // Show the tiles (with their blurred previews) while the URLs are signed
+      setPhotos(albumPhotos)
+      setLoadingPhotos(false)
       
       // Get signed URLs for photos
-      const photosWithUrls = await Promise.all(
-        albumPhotos.map(async (albumPhoto) => {
-          if (!albumPhoto.photo) return { ...albumPhoto, imageUrl: null }
-          
-          try {
-            const { data, error } = await supabase.storage
-              .from('family-photos')
-              .createSignedUrl(albumPhoto.photo.file_path, 60 * 60) // 1 hour
-
-            return {
-              ...albumPhoto,
-              imageUrl: error ? null : data.signedUrl
-            }
-          } catch (error) {
-            console.error('Error getting signed URL:', error)
-            return { ...albumPhoto, imageUrl: null }
-          }
-        })
+      const urls = await getSignedUrls(
+        albumPhotos
+          .filter(albumPhoto => albumPhoto.photo)
+          .map(albumPhoto => getPhotoVariantPath(albumPhoto.photo!, 'thumbnail'))
       )
-      
-      setPhotos(photosWithUrls)
+
+      setPhotos(albumPhotos.map(albumPhoto => ({
+        ...albumPhoto,
+        imageUrl: albumPhoto.photo
+          ? urls.get(getPhotoVariantPath(albumPhoto.photo, 'thumbnail')) || null
+          : null
+      })))
     } catch (error) {
       console.error('Error loading album photos:', error)
     } finally {
@@ -138,6 +173,99 @@ export default function AlbumDetailPage() {
     }
   }
 
+  /**
+   * Show the new order straight away and save it in the background,
+   * putting the old one back if the save fails
+   */
+  const handleReorder = async (reordered: PhotoWithUrl[]) => {
+    const previous = photos
+    if (reordered.every((albumPhoto, index) => albumPhoto.id === previous[index]?.id)) return
+
+    setPhotos(reordered)
+    setSavingOrder(true)
+    try {
+      const saved = await reorderAlbumPhotos(albumId, reordered.map(albumPhoto => albumPhoto.id))
+      const positions = new Map(saved.map(({ id, position }) => [id, position]))
+      setPhotos(reordered.map(albumPhoto => ({
+        ...albumPhoto,
+        position: positions.get(albumPhoto.id) ?? albumPhoto.position
+      })))
+    } catch (error) {
+      console.error('Error reordering album photos:', error)
+      setPhotos(previous)
+      alert('Failed to save the new order. Please try again.')
+    } finally {
+      setSavingOrder(false)
+    }
+  }
+
+  const toggleSelectionMode = () => {
+    setIsSelecting(!isSelecting)
+    setIsReordering(false)
+    setSelectedPhotoIds(new Set())
+  }
+
+  const toggleReordering = () => {
+    setIsReordering(!isReordering)
+    setIsSelecting(false)
+    setSelectedPhotoIds(new Set())
+  }
+
+  const togglePhotoSelection = (photoId: string) => {
+    const newSelection = new Set(selectedPhotoIds)
+    if (newSelection.has(photoId)) {
+      newSelection.delete(photoId)
+    } else {
+      newSelection.add(photoId)
+    }
+    setSelectedPhotoIds(newSelection)
+  }
+
+  const handleRemoveSelected = async () => {
+    const count = selectedPhotoIds.size
+    if (count === 0) return
+
+    const confirmed = confirm(
+      `Remove ${count} photo${count !== 1 ? 's' : ''} from this album? They'll stay in the library.`
+    )
+    if (!confirmed) return
+
+    setIsRemoving(true)
+    try {
+      await removePhotosFromAlbum(albumId, Array.from(selectedPhotoIds))
+      setPhotos(prev => prev.filter(albumPhoto => !selectedPhotoIds.has(albumPhoto.photo_id)))
+      // Removing the cover puts the album back to using its first photo
+      if (album?.cover_photo_id && selectedPhotoIds.has(album.cover_photo_id)) {
+        setAlbum({ ...album, cover_photo_id: null })
+      }
+      setSelectedPhotoIds(new Set())
+      setIsSelecting(false)
+    } catch (error) {
+      console.error('Error removing photos from album:', error)
+      alert('Failed to remove photos from the album. Please try again.')
+    } finally {
+      setIsRemoving(false)
+    }
+  }
+
+  const handleSetCover = async () => {
+    if (!album || selectedPhotoIds.size !== 1) return
+    const [photoId] = Array.from(selectedPhotoIds)
+
+    setIsSettingCover(true)
+    try {
+      const updatedAlbum = await updateAlbum(album.id, { cover_photo_id: photoId })
+      setAlbum({ ...album, ...updatedAlbum })
+      setSelectedPhotoIds(new Set())
+      setIsSelecting(false)
+    } catch (error) {
+      console.error('Error setting album cover:', error)
+      alert('Failed to set the album cover. Please try again.')
+    } finally {
+      setIsSettingCover(false)
+    }
+  }
+
   const handleCancel = () => {
     if (album) {
       setEditName(album.name)
@@ -297,7 +425,47 @@ export default function AlbumDetailPage() {
             </div>
 
             {!isEditing && (
-              <div className="flex items-center space-x-2">
+              <div className="flex flex-wrap items-center justify-end gap-2 ml-4">
+                {photos.length > 0 && (
+                  <button
+                    onClick={toggleSelectionMode}
+                    className={`flex items-center px-4 py-2 border rounded-lg transition-colors ${
+                      isSelecting
+                        ? 'border-blue-500 bg-blue-50 text-blue-700'
+                        : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                    }`}
+                  >
+                    <CheckSquare className="w-4 h-4 mr-2" />
+                    {isSelecting ? 'Cancel' : 'Select'}
+                  </button>
+                )}
+                {photos.length > 1 && (
+                  <button
+                    onClick={toggleReordering}
+                    className={`flex items-center px-4 py-2 border rounded-lg transition-colors ${
+                      isReordering
+                        ? 'border-blue-500 bg-blue-50 text-blue-700'
+                        : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                    }`}
+                  >
+                    <ArrowUpDown className="w-4 h-4 mr-2" />
+                    {isReordering ? 'Done' : 'Reorder'}
+                  </button>
+                )}
+                <Link
+                  href={`/upload?album=${album.id}`}
+                  className="flex items-center px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+                >
+                  <Upload className="w-4 h-4 mr-2" />
+                  Add photos
+                </Link>
+                <button
+                  onClick={() => setShowAddPhotosModal(true)}
+                  className="flex items-center px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+                >
+                  <ImagePlus className="w-4 h-4 mr-2" />
+                  From library
+                </button>
                 <button
                   onClick={copyShareLink}
                   className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
@@ -336,45 +504,133 @@ export default function AlbumDetailPage() {
             <Images className="w-16 h-16 text-gray-400 mx-auto mb-4" />
             <h3 className="text-lg font-medium text-gray-900 mb-2">No photos in this album</h3>
             <p className="text-gray-600 mb-6">
-              Add photos from the gallery to see them here
+              Upload photos straight into it, or add them from the library
             </p>
-            <Link
-              href="/"
-              className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
-            >
-              Go to Gallery
-            </Link>
+            <div className="flex justify-center space-x-2">
+              <Link
+                href={`/upload?album=${album.id}`}
+                className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+              >
+                <Upload className="w-4 h-4 mr-2" />
+                Upload Photos
+              </Link>
+              <button
+                onClick={() => setShowAddPhotosModal(true)}
+                className="inline-flex items-center px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                <ImagePlus className="w-4 h-4 mr-2" />
+                Add from Library
+              </button>
+            </div>
+          </div>
+        ) : isReordering ? (
+          <div>
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4 p-4 bg-blue-50 border border-blue-200 rounded-lg">
+              <p className="text-sm text-blue-800">
+                Drag a photo by its handle, or focus the handle and use the arrow keys.
+                {savingOrder ? ' Saving...' : ' Changes save as you go.'}
+              </p>
+              <select
+                value=""
+                onChange={(e) => handleReorder(sortAlbumPhotos(photos, e.target.value as SortPreset))}
+                disabled={savingOrder}
+                className="px-3 py-2 text-sm border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+              >
+                <option value="" disabled>Sort by...</option>
+                {Object.entries(SORT_PRESETS).map(([preset, label]) => (
+                  <option key={preset} value={preset}>{label}</option>
+                ))}
+              </select>
+            </div>
+            <AlbumReorderGrid photos={photos} onReorder={handleReorder} disabled={savingOrder} />
           </div>
         ) : (
-          <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-4">
-            {photos.map((albumPhoto) => (
-              <div key={albumPhoto.id} className="bg-white rounded-lg shadow overflow-hidden hover:shadow-lg transition-shadow">
-                <div className="aspect-square relative">
-                  {albumPhoto.imageUrl ? (
-                    <Image
-                      src={albumPhoto.imageUrl}
-                      alt={albumPhoto.photo?.original_filename || 'Photo'}
-                      fill
-                      className="object-cover"
-                    />
-                  ) : (
-                    <div className="w-full h-full bg-gray-200 flex items-center justify-center">
-                      <Images className="w-8 h-8 text-gray-400" />
-                    </div>
+          <>
+            {isSelecting && (
+              <div className="flex items-center justify-between mb-4 p-4 bg-blue-50 border border-blue-200 rounded-lg">
+                <p className="text-sm text-blue-800">
+                  {selectedPhotoIds.size} photo{selectedPhotoIds.size !== 1 ? 's' : ''} selected
+                </p>
+                <div className="flex items-center space-x-2">
+                  {selectedPhotoIds.size === 1 && !selectedPhotoIds.has(album.cover_photo_id || '') && (
+                    <button
+                      onClick={handleSetCover}
+                      disabled={isSettingCover || isRemoving}
+                      className="flex items-center px-3 py-1.5 text-sm border border-gray-300 text-gray-700 bg-white rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors"
+                    >
+                      <ImageIcon className="w-4 h-4 mr-1" />
+                      {isSettingCover ? 'Saving...' : 'Set as cover'}
+                    </button>
                   )}
+                  <button
+                    onClick={handleRemoveSelected}
+                    disabled={selectedPhotoIds.size === 0 || isRemoving || isSettingCover}
+                    className="flex items-center px-3 py-1.5 text-sm border border-red-300 text-red-600 bg-white rounded-lg hover:bg-red-50 disabled:opacity-50 transition-colors"
+                  >
+                    <Trash2 className="w-4 h-4 mr-1" />
+                    {isRemoving ? 'Removing...' : 'Remove from album'}
+                  </button>
                 </div>
-                {albumPhoto.photo?.caption && (
-                  <div className="p-2">
-                    <p className="text-sm text-gray-700 line-clamp-2">
-                      {albumPhoto.photo.caption}
-                    </p>
-                  </div>
-                )}
               </div>
-            ))}
-          </div>
+            )}
+            <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-4">
+              {photos.map((albumPhoto) => (
+                <div key={albumPhoto.id} className="bg-white rounded-lg shadow overflow-hidden hover:shadow-lg transition-shadow">
+                  <div
+                    className={`aspect-square relative overflow-hidden ${
+                      isSelecting
+                        ? `cursor-pointer select-none transition-all duration-200 ${
+                            selectedPhotoIds.has(albumPhoto.photo_id) ? 'ring-4 ring-inset ring-blue-500 opacity-80' : 'hover:opacity-90'
+                          }`
+                        : ''
+                    }`}
+                    onClick={isSelecting ? () => togglePhotoSelection(albumPhoto.photo_id) : undefined}
+                  >
+                    {isSelecting && <SelectionCheck selected={selectedPhotoIds.has(albumPhoto.photo_id)} />}
+                    {albumPhoto.imageUrl && albumPhoto.photo ? (
+                      <SignedImage
+                        path={getPhotoVariantPath(albumPhoto.photo, 'thumbnail')}
+                        src={albumPhoto.imageUrl}
+                        alt={albumPhoto.photo.original_filename}
+                        fill
+                        className="object-cover"
+                        {...getPlaceholderProps(albumPhoto.photo)}
+                      />
+                    ) : (
+                      <PhotoPlaceholder placeholder={albumPhoto.photo?.placeholder}>
+                        <Images className="w-8 h-8 text-gray-400" />
+                      </PhotoPlaceholder>
+                    )}
+                    {albumPhoto.photo?.media_type === 'video' && (
+                      <VideoBadge duration={albumPhoto.photo.duration} />
+                    )}
+                    {albumPhoto.photo_id === album.cover_photo_id && (
+                      <span className="absolute bottom-2 left-2 px-1.5 py-0.5 text-xs font-medium text-white bg-black/60 rounded pointer-events-none">
+                        Cover
+                      </span>
+                    )}
+                  </div>
+                  {albumPhoto.photo?.caption && (
+                    <div className="p-2">
+                      <p className="text-sm text-gray-700 line-clamp-2">
+                        {albumPhoto.photo.caption}
+                      </p>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          </>
         )}
       </div>
+
+      <AddPhotosToAlbumModal
+        isOpen={showAddPhotosModal}
+        onClose={() => setShowAddPhotosModal(false)}
+        albumId={albumId}
+        existingPhotoIds={photos.map(albumPhoto => albumPhoto.photo_id)}
+        onSuccess={loadPhotos}
+      />
     </Layout>
   )
 }
\ No newline at end of file
@@ -14,6 +14,9 @@ import {
   type Album 
 } from '@/lib/supabase/albums'
 import { getDisplayName, getAvatarUrl } from '@/lib/supabase/profiles'
+import { getPhotoVariantPath } from '@/lib/supabase/photos'
+import { getSignedUrls } from '@/lib/supabase/photoUrls'
+import SignedImage from '@/components/SignedImage'
 import { 
   Plus, 
   Images, 
@@ -27,6 +30,7 @@ import {
 interface AlbumWithPreview extends Album {
   previewPhotos: string[]
   previewUrls: (string | null)[]
+  coverUrl: string | null // only for albums with a chosen cover
 }
 
 export default function AlbumsPage() {
@@ -72,39 +76,33 @@ export default function AlbumsPage() {
       const albumsData = await getAlbums()
       
       // Get preview photos for each album
-      const albumsWithPreviews = await Promise.all(
+      const albumsWithPaths = await Promise.all(
         albumsData.map(async (album) => {
           try {
             const photos = await getAlbumPhotos(album.id)
             const previewPhotos = photos
               .slice(0, 4)
-              .map(ap => ap.photo?.file_path)
+              .map(ap => ap.photo && getPhotoVariantPath(ap.photo, 'thumbnail'))
               .filter((path): path is string => Boolean(path))
-            
-            // Get signed URLs for preview photos
-            const previewUrls = await Promise.all(
-              previewPhotos.map(async (filePath) => {
-                try {
-                  const { data, error } = await supabase.storage
-                    .from('family-photos')
-                    .createSignedUrl(filePath, 60 * 60) // 1 hour
-                  return error ? null : data.signedUrl
-                } catch (error) {
-                  console.error('Error creating signed URL:', error)
-                  return null
-                }
-              })
-            )
-            
-            return { ...album, previewPhotos, previewUrls }
+
+            return { ...album, previewPhotos }
           } catch (error) {
             console.error(`Error loading photos for album ${album.id}:`, error)
-            return { ...album, previewPhotos: [], previewUrls: [] }
+            return { ...album, previewPhotos: [] }
           }
         })
       )
-      
-      setAlbums(albumsWithPreviews)
+
+      // Sign every album's previews and covers together
+      const urls = await getSignedUrls(albumsWithPaths.flatMap(album =>
+        album.cover_photo_id && album.cover_path ? [...album.previewPhotos, album.cover_path] : album.previewPhotos
+      ))
+
+      setAlbums(albumsWithPaths.map(album => ({
+        ...album,
+        previewUrls: album.previewPhotos.map(path => urls.get(path) || null),
+        coverUrl: album.cover_photo_id && album.cover_path ? urls.get(album.cover_path) || null : null
+      })))
     } catch (error) {
       console.error('Error loading albums:', error)
     } finally {
@@ -198,13 +196,22 @@ export default function AlbumsPage() {
                 {/* Album Preview */}
                 <Link href={`/albums/${album.id}`}>
                   <div className="aspect-square bg-gray-100 relative cursor-pointer">
-                    {album.previewUrls.length > 0 ? (
+                    {album.coverUrl && album.cover_path ? (
+                      <SignedImage
+                        path={album.cover_path}
+                        src={album.coverUrl}
+                        alt={`${album.name} cover`}
+                        fill
+                        className="object-cover"
+                      />
+                    ) : album.previewUrls.length > 0 ? (
                       <div className="grid grid-cols-2 gap-1 h-full">
                         {Array.from({ length: 4 }).map((_, index) => (
                           <div key={index} className="relative bg-gray-200">
                             {album.previewUrls[index] ? (
-                              <Image
-                                src={album.previewUrls[index]!}
+                              <SignedImage
+                                path={album.previewPhotos[index]}
+                                src={album.previewUrls[index]}
                                 alt={`Album preview ${index + 1}`}
                                 fill
                                 className="object-cover"
@@ -0,0 +1,98 @@
+import { createAdminClient } from '@/lib/supabase/admin'
+import { TRASH_RETENTION_DAYS } from '@/lib/supabase/photos'
+import { NextRequest, NextResponse } from 'next/server'
+
+// Storage and PostgREST both cap how much we should send in one request
+const PURGE_BATCH_SIZE = 100
+// Stop starting new batches after this long, well inside maxDuration
+const PURGE_TIME_BUDGET_MS = 45 * 1000
+
+export const maxDuration = 60
+
+/**
+ * Permanently remove photos that have been in the trash for longer than
+ * TRASH_RETENTION_DAYS. Called daily by the Vercel cron in vercel.json.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Only the scheduler (or someone holding the secret) may purge
+    const cronSecret = process.env.CRON_SECRET
+    if (!cronSecret || request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const supabase = createAdminClient()
+    const cutoff = new Date(Date.now() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString()
+
+    // Work through the trash a batch at a time until it's empty or the run
+    // is nearly out of time; whatever is left goes in the next run
+    const deadline = Date.now() + PURGE_TIME_BUDGET_MS
+    let purged = 0
+    let hasMore = true
+
+    while (hasMore && Date.now() < deadline) {
+      const { data: expiredPhotos, error: fetchError } = await supabase
+        .from('photos')
+        .select('id, file_path, medium_path, thumbnail_path, original_path')
+        .not('deleted_at', 'is', null)
+        .lt('deleted_at', cutoff)
+        .limit(PURGE_BATCH_SIZE)
+
+      if (fetchError) {
+        console.error('Error fetching expired photos:', fetchError)
+        return NextResponse.json({ error: 'Failed to fetch expired photos' }, { status: 500 })
+      }
+
+      if (!expiredPhotos || expiredPhotos.length === 0) {
+        hasMore = false
+        break
+      }
+
+      const photoIds = expiredPhotos.map(photo => photo.id)
+      const filePaths = expiredPhotos
+        .flatMap(photo => [photo.file_path, photo.medium_path, photo.thumbnail_path, photo.original_path])
+        .filter((path): path is string => Boolean(path))
+
+      // Remove the files first; if this fails the rows stay and the next run retries
+      const { error: storageError } = await supabase.storage
+        .from('family-photos')
+        .remove(filePaths)
+
+      if (storageError) {
+        console.error('Error removing photo files:', storageError)
+        return NextResponse.json({ error: 'Failed to remove photo files' }, { status: 500 })
+      }
+
+      // Then the rows that point at the photos, then the photos themselves
+      for (const table of ['album_photos', 'comments', 'reactions']) {
+        const { error } = await supabase
+          .from(table)
+          .delete()
+          .in('photo_id', photoIds)
+
+        if (error) {
+          console.error(`Error removing ${table} for purged photos:`, error)
+          return NextResponse.json({ error: `Failed to remove ${table}` }, { status: 500 })
+        }
+      }
+
+      const { error: deleteError } = await supabase
+        .from('photos')
+        .delete()
+        .in('id', photoIds)
+
+      if (deleteError) {
+        console.error('Error deleting purged photos:', deleteError)
+        return NextResponse.json({ error: 'Failed to delete photos' }, { status: 500 })
+      }
+
+      purged += photoIds.length
+      hasMore = photoIds.length === PURGE_BATCH_SIZE
+    }
+
+    return NextResponse.json({ purged, has_more: hasMore })
+  } catch (error) {
+    console.error('Error in photo purge API:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,140 @@
+import { createClient } from '@/lib/supabase/server'
+import { PHOTO_COLUMNS, type Photo } from '@/lib/supabase/photos'
+import { ALBUM_COLUMNS, type Album } from '@/lib/supabase/albums'
+import { PROFILE_COLUMNS } from '@/lib/supabase/profiles'
+import { isUuid } from '@/lib/photoFilters'
+import { NextRequest, NextResponse } from 'next/server'
+import type { SearchResponse, SearchMatchSource } from '@/types/search'
+
+const MIN_QUERY_LENGTH = 2
+
+/**
+ * Read a date filter. The search page sends the day boundaries as
+ * timestamps worked out in the browser (see startOfDay), so they match
+ * the user's own midnight rather than the server's. Returns undefined
+ * for a value that isn't a timestamp.
+ */
+function parseTimestamp(value: string | null): string | null | undefined {
+  if (!value) {
+    return null
+  }
+
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? undefined : date.toISOString()
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Check if user is authenticated
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // Check if user is an active family member
+    const { data: currentMember, error: memberError } = await supabase
+      .from('family_members')
+      .select('id')
+      .eq('user_id', user.id)
+      .eq('status', 'active')
+      .single()
+
+    if (memberError || !currentMember) {
+      return NextResponse.json({ error: 'Access denied. You must be an active family member.' }, { status: 403 })
+    }
+
+    const params = request.nextUrl.searchParams
+    const query = params.get('q')?.trim() || ''
+    const uploader = params.get('uploader') || null
+    const from = parseTimestamp(params.get('from'))
+    const to = parseTimestamp(params.get('to'))
+
+    if (uploader && !isUuid(uploader)) {
+      return NextResponse.json({ error: 'Invalid uploader' }, { status: 400 })
+    }
+    if (from === undefined || to === undefined) {
+      return NextResponse.json({ error: 'Invalid date' }, { status: 400 })
+    }
+
+    if (query.length < MIN_QUERY_LENGTH) {
+      return NextResponse.json<SearchResponse>({ photos: [], albums: [] })
+    }
+
+    const [photoMatches, albumMatches] = await Promise.all([
+      supabase.rpc('search_photos', {
+        p_query: query,
+        p_uploaded_by: uploader,
+        p_from: from,
+        p_to: to
+      }),
+      supabase.rpc('search_albums', {
+        p_query: query,
+        p_created_by: uploader,
+        p_from: from,
+        p_to: to
+      })
+    ])
+
+    if (photoMatches.error || albumMatches.error) {
+      console.error('Error searching:', photoMatches.error || albumMatches.error)
+      return NextResponse.json({ error: 'Search failed' }, { status: 500 })
+    }
+
+    const photoHits: { photo_id: string; matched_in: SearchMatchSource; headline: string }[] =
+      photoMatches.data || []
+    const albumHits: { album_id: string; name_headline: string; description_headline: string }[] =
+      albumMatches.data || []
+
+    // Load the matched rows, then put them back in ranked order
+    const [{ data: photoRows }, { data: albumRows }] = await Promise.all([
+      photoHits.length > 0
+        ? supabase.from('photos').select(PHOTO_COLUMNS).in('id', photoHits.map(hit => hit.photo_id))
+        : Promise.resolve({ data: [] as Photo[] }),
+      albumHits.length > 0
+        ? supabase.from('albums').select(ALBUM_COLUMNS).in('id', albumHits.map(hit => hit.album_id))
+        : Promise.resolve({ data: [] as Album[] })
+    ])
+
+    const photoMap = new Map<string, Photo>((photoRows || []).map(photo => [photo.id, photo]))
+    const albumMap = new Map<string, Album>((albumRows || []).map(album => [album.id, album]))
+    const photos = photoHits.filter(hit => photoMap.has(hit.photo_id))
+    const albums = albumHits.filter(hit => albumMap.has(hit.album_id))
+
+    // Uploader and album creator profiles
+    const profileIds = [...new Set([
+      ...photos.map(hit => photoMap.get(hit.photo_id)!.uploaded_by),
+      ...albums.map(hit => albumMap.get(hit.album_id)!.created_by)
+    ])]
+    const { data: profiles } = profileIds.length > 0
+      ? await supabase.from('profiles').select(PROFILE_COLUMNS).in('id', profileIds)
+      : { data: [] }
+    const profileMap = new Map(profiles?.map(profile => [profile.id, profile]) || [])
+
+    return NextResponse.json<SearchResponse>({
+      photos: photos.map(hit => {
+        const photo = photoMap.get(hit.photo_id)!
+        return {
+          photo: {
+            ...photo,
+            uploader_profile: profileMap.get(photo.uploaded_by) || null
+          },
+          matched_in: hit.matched_in,
+          headline: hit.headline
+        }
+      }),
+      albums: albums.map(hit => {
+        const album = albumMap.get(hit.album_id)!
+        return {
+          album: { ...album, creator: profileMap.get(album.created_by) || null },
+          name_headline: hit.name_headline,
+          description_headline: hit.description_headline
+        }
+      })
+    })
+  } catch (error) {
+    console.error('Error in search API:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,261 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useRouter } from 'next/navigation'
+import { createClient } from '@/lib/supabase/client'
+import { User } from '@supabase/supabase-js'
+import Layout from '@/components/Layout'
+import SignedImage from '@/components/SignedImage'
+import { getPhotoVariantPath, getPlaceholderProps } from '@/lib/supabase/photos'
+import { getDisplayName } from '@/lib/supabase/profiles'
+import {
+  getDuplicateClusters,
+  getUnhashedPhotoCount,
+  hashOlderPhotos,
+  mergeDuplicatePhotos,
+  type DuplicateCluster,
+  type DuplicatePhoto
+} from '@/lib/supabase/duplicates'
+import { Copy, Check, MessageCircle, Heart, Images, ScanSearch } from 'lucide-react'
+
+/**
+ * The photo suggested as the keeper: the one with the most comments and
+ * reactions, or the first uploaded if that's a tie
+ */
+function suggestKeeper(photos: DuplicatePhoto[]): string {
+  return photos.reduce((best, photo) =>
+    photo.comment_count + photo.reaction_count > best.comment_count + best.reaction_count ? photo : best
+  ).id
+}
+
+export default function DuplicatesPage() {
+  const [user, setUser] = useState<User | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [clusters, setClusters] = useState<DuplicateCluster[]>([])
+  const [keepers, setKeepers] = useState<Record<string, string>>({})
+  const [loadingClusters, setLoadingClusters] = useState(false)
+  const [mergingKey, setMergingKey] = useState<string | null>(null)
+  const [unhashedCount, setUnhashedCount] = useState(0)
+  const [scanning, setScanning] = useState(false)
+  const router = useRouter()
+  const supabase = createClient()
+
+  useEffect(() => {
+    const getUser = async () => {
+      const { data: { user } } = await supabase.auth.getUser()
+      if (!user) {
+        router.push('/')
+        return
+      }
+      setUser(user)
+      setLoading(false)
+    }
+    getUser()
+  }, [supabase, router])
+
+  const loadClusters = useCallback(async () => {
+    setLoadingClusters(true)
+    try {
+      const [found, unhashed] = await Promise.all([getDuplicateClusters(), getUnhashedPhotoCount()])
+      setClusters(found)
+      setUnhashedCount(unhashed)
+      setKeepers(Object.fromEntries(found.map(cluster => [cluster.photos[0].id, suggestKeeper(cluster.photos)])))
+    } catch (error) {
+      console.error('Error loading duplicates:', error)
+    } finally {
+      setLoadingClusters(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (user) {
+      loadClusters()
+    }
+  }, [user, loadClusters])
+
+  const handleScan = async () => {
+    setScanning(true)
+    try {
+      let remaining = unhashedCount
+      while (remaining > 0) {
+        const checked = await hashOlderPhotos()
+        if (checked === 0) break
+        remaining = Math.max(0, remaining - checked)
+        setUnhashedCount(remaining)
+      }
+      await loadClusters()
+    } catch (error) {
+      console.error('Error scanning photos:', error)
+      alert('Failed to scan older photos. Please try again.')
+    } finally {
+      setScanning(false)
+    }
+  }
+
+  const handleMerge = async (cluster: DuplicateCluster) => {
+    const key = cluster.photos[0].id
+    const keepId = keepers[key]
+    // Only photos that match the keeper itself; the rest of the cluster
+    // may just look like one of those
+    const duplicateIds = cluster.photos.find(photo => photo.id === keepId)?.matches || []
+    if (duplicateIds.length === 0) return
+
+    const confirmed = confirm(
+      `Keep the selected photo and move ${duplicateIds.length} duplicate${duplicateIds.length !== 1 ? 's' : ''} to the trash? ` +
+      'Their comments, reactions and album places will move to the photo you keep.'
+    )
+    if (!confirmed) return
+
+    setMergingKey(key)
+    try {
+      await mergeDuplicatePhotos(keepId, duplicateIds)
+      if (duplicateIds.length === cluster.photos.length - 1) {
+        setClusters(prev => prev.filter(existing => existing.photos[0].id !== key))
+      } else {
+        // Some of the cluster is left, and may now be a cluster of its own
+        await loadClusters()
+      }
+    } catch (error) {
+      console.error('Error merging photos:', error)
+      alert('Failed to merge photos. Please try again.')
+    } finally {
+      setMergingKey(null)
+    }
+  }
+
+  if (loading) {
+    return (
+      <main className="flex min-h-screen flex-col items-center justify-center p-24">
+        <div className="text-center">
+          <h1 className="text-4xl font-bold mb-8">Loading...</h1>
+        </div>
+      </main>
+    )
+  }
+
+  return (
+    <Layout user={user!}>
+      <div className="max-w-7xl mx-auto">
+        {/* Header */}
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900">Duplicates</h1>
+          <p className="text-gray-600 mt-1">
+            Photos that look the same. Pick the one to keep and merge the rest into it.
+          </p>
+        </div>
+
+        {unhashedCount > 0 && (
+          <div className="mb-6 flex items-center justify-between p-4 bg-blue-50 border border-blue-200 rounded-lg">
+            <p className="text-sm text-blue-800">
+              {unhashedCount} older photo{unhashedCount !== 1 ? "s haven't" : " hasn't"} been checked for duplicates yet
+            </p>
+            <button
+              onClick={handleScan}
+              disabled={scanning}
+              className="inline-flex items-center px-3 py-1.5 text-sm text-white bg-blue-500 rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+            >
+              <ScanSearch className="w-4 h-4 mr-1" />
+              {scanning ? 'Scanning...' : 'Scan now'}
+            </button>
+          </div>
+        )}
+
+        {loadingClusters ? (
+          <div className="text-center py-12">
+            <p className="text-gray-500">Looking for duplicates...</p>
+          </div>
+        ) : clusters.length === 0 ? (
+          <div className="text-center py-12">
+            <Copy className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No duplicates found</h3>
+            <p className="text-gray-600">Every photo in the library is one of a kind.</p>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {clusters.map((cluster) => {
+              const key = cluster.photos[0].id
+              const keepId = keepers[key]
+              const keeperMatches = cluster.photos.find(photo => photo.id === keepId)?.matches || []
+
+              return (
+                <div key={key} className="bg-white rounded-lg shadow p-4">
+                  <div className="flex items-center justify-between mb-4">
+                    <p className="text-sm text-gray-600">
+                      {cluster.photos.length} photos look the same
+                    </p>
+                    <button
+                      onClick={() => handleMerge(cluster)}
+                      disabled={mergingKey !== null || keeperMatches.length === 0}
+                      className="px-3 py-1.5 text-sm text-white bg-blue-500 rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+                    >
+                      {mergingKey === key ? 'Merging...' : `Keep selected & merge ${keeperMatches.length}`}
+                    </button>
+                  </div>
+
+                  <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-6 gap-4">
+                    {cluster.photos.map((photo) => {
+                      const isKeeper = photo.id === keepId
+                      const isMatch = keeperMatches.includes(photo.id)
+
+                      return (
+                        <button
+                          key={photo.id}
+                          onClick={() => setKeepers(prev => ({ ...prev, [key]: photo.id }))}
+                          disabled={mergingKey !== null}
+                          className={`text-left rounded-lg overflow-hidden border-2 transition-colors ${
+                            isKeeper ? 'border-blue-500' : 'border-transparent hover:border-gray-300'
+                          }`}
+                        >
+                          <div className={`aspect-square relative bg-gray-200 ${isKeeper ? '' : 'opacity-75'}`}>
+                            <SignedImage
+                              path={getPhotoVariantPath(photo, 'thumbnail')}
+                              src={photo.imageUrl}
+                              alt={photo.original_filename}
+                              fill
+                              sizes="(max-width: 640px) 50vw, (max-width: 1024px) 25vw, 16vw"
+                              className="object-cover"
+                              fallback={<Images className="w-8 h-8 text-gray-400 absolute inset-0 m-auto" />}
+                              {...getPlaceholderProps(photo)}
+                            />
+                            {isKeeper && (
+                              <span className="absolute top-2 left-2 inline-flex items-center px-2 py-0.5 text-xs font-medium text-white bg-blue-500 rounded-full">
+                                <Check className="w-3 h-3 mr-1" />
+                                Keep
+                              </span>
+                            )}
+                            {!isKeeper && !isMatch && (
+                              <span className="absolute bottom-2 left-2 px-1.5 py-0.5 text-xs font-medium text-white bg-black/60 rounded">
+                                Not merged
+                              </span>
+                            )}
+                          </div>
+                          <div className="p-2 text-xs text-gray-600">
+                            <p className="truncate text-gray-900">{getDisplayName(photo.uploader_profile)}</p>
+                            <p>{new Date(photo.uploaded_at).toLocaleDateString()}</p>
+                            <p className="flex items-center mt-1 space-x-3 text-gray-500">
+                              <span className="inline-flex items-center">
+                                <MessageCircle className="w-3 h-3 mr-1" />
+                                {photo.comment_count}
+                              </span>
+                              <span className="inline-flex items-center">
+                                <Heart className="w-3 h-3 mr-1" />
+                                {photo.reaction_count}
+                              </span>
+                            </p>
+                            {photo.caption && (
+                              <p className="mt-1 line-clamp-2">{photo.caption}</p>
+                            )}
+                          </div>
+                        </button>
+                      )
+                    })}
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </div>
+    </Layout>
+  )
+}
@@ -6,6 +6,7 @@ import { User } from '@supabase/supabase-js'
 import Layout from '@/components/Layout'
 import FamilyMembersList from '@/components/FamilyMembersList'
 import InviteForm from '@/components/InviteForm'
+import FamilySettingsForm from '@/components/FamilySettingsForm'
 import { Users, UserPlus, Shield } from 'lucide-react'
 import Link from 'next/link'
 import type { FamilyMemberWithProfile, InvitationRequest, FamilyManagementStats } from '@/types/family'
@@ -238,6 +239,11 @@ export default function FamilyManagementPage() {
           onRemoveMember={handleRemoveMember}
           isLoading={loadingMembers}
         />
+
+        {/* Family Settings */}
+        <div className="mt-8">
+          <FamilySettingsForm />
+        </div>
       </div>
     </Layout>
   )
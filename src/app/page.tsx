@@ -1,7 +1,8 @@
 'use client'
 
 import { createClient } from '@/lib/supabase/client'
-import { useEffect, useState, useCallback } from 'react'
+import { useEffect, useState, useCallback, useMemo, useRef, Suspense } from 'react'
+import { useRouter, usePathname, useSearchParams } from 'next/navigation'
 import { User } from '@supabase/supabase-js'
 import Layout from '@/components/Layout'
 import Image from 'next/image'
@@ -9,43 +10,122 @@ import PhotoModal from '@/components/PhotoModal'
 import ReactionSummary from '@/components/ReactionSummary'
 import ReactionButton from '@/components/ReactionButton'
 import CreateAlbumModal from '@/components/CreateAlbumModal'
+import AddToAlbumModal from '@/components/AddToAlbumModal'
+import PhotoTimeline from '@/components/PhotoTimeline'
+import PhotoFilterBar from '@/components/PhotoFilterBar'
+import PhotoPlaceholder from '@/components/PhotoPlaceholder'
+import VideoBadge from '@/components/VideoBadge'
+import SignedImage from '@/components/SignedImage'
+import SelectionCheck from '@/components/SelectionCheck'
 import { 
   loadMultiplePhotoReactions, 
   addHeartReaction,
   type PhotoReactions 
 } from '@/lib/reactions'
 import { useClickHandler } from '@/hooks/useClickHandler'
+import { useInfiniteScroll } from '@/hooks/useInfiniteScroll'
+import { useUploadQueue } from '@/hooks/useUploadQueue'
 import { getDisplayName, getAvatarUrl, type Profile } from '@/lib/supabase/profiles'
-import { User as UserIcon, Check, X, FolderPlus } from 'lucide-react'
-
-interface Photo {
-  id: string
-  filename: string
-  original_filename: string
-  caption: string | null
-  file_path: string
-  uploaded_at: string
-  uploaded_by: string
-}
-
-interface PhotoWithProfile extends Photo {
-  imageUrl: string | null
-  uploader_profile: Profile | null
-}
-
-export default function Home() {
+import {
+  parsePhotoFilters,
+  photoFiltersToParams,
+  hasActivePhotoFilters,
+  EMPTY_PHOTO_FILTERS,
+  type PhotoFilters
+} from '@/lib/photoFilters'
+import {
+  getPhotosPage,
+  getPhotoYears,
+  getYearCursor,
+  getPlaceholderProps,
+  getPhotoVariantPath,
+  type Photo,
+  type PhotoCursor,
+  type PhotoSort,
+  type PhotoWithProfile,
+  type PhotoYear
+} from '@/lib/supabase/photos'
+import { User as UserIcon, X, FolderPlus, FolderInput, LayoutGrid, CalendarDays } from 'lucide-react'
+
+type GalleryView = 'grid' | 'timeline'
+
+const GALLERY_VIEW_KEY = 'gallery-view'
+
+function Gallery() {
   const [user, setUser] = useState<User | null>(null)
   const [loading, setLoading] = useState(true)
   const [photos, setPhotos] = useState<PhotoWithProfile[]>([])
   const [loadingPhotos, setLoadingPhotos] = useState(false)
+  const [loadingMorePhotos, setLoadingMorePhotos] = useState(false)
+  const [nextCursor, setNextCursor] = useState<PhotoCursor | null>(null)
   const [email, setEmail] = useState('')
   const [selectedPhotoIndex, setSelectedPhotoIndex] = useState<number | null>(null)
   const [photoReactions, setPhotoReactions] = useState<PhotoReactions>({})
   const [isSelectionMode, setIsSelectionMode] = useState(false)
   const [selectedPhotoIds, setSelectedPhotoIds] = useState<Set<string>>(new Set())
   const [showCreateAlbumModal, setShowCreateAlbumModal] = useState(false)
+  const [showAddToAlbumModal, setShowAddToAlbumModal] = useState(false)
+  // Restore the last view used on this device. Nothing view-specific
+  // renders until the user has loaded, so this can't cause a hydration mismatch.
+  const [view, setView] = useState<GalleryView>(() =>
+    typeof window !== 'undefined' && localStorage.getItem(GALLERY_VIEW_KEY) === 'timeline'
+      ? 'timeline'
+      : 'grid'
+  )
+  const [photoYears, setPhotoYears] = useState<PhotoYear[]>([])
+  const [jumpedToYear, setJumpedToYear] = useState<number | null>(null)
+  const [uploaders, setUploaders] = useState<Profile[]>([])
+  const router = useRouter()
+  const pathname = usePathname()
+  const searchParams = useSearchParams()
   const supabase = createClient()
 
+  // Filters are kept in the URL so a filtered view can be shared. The photo
+  // modal swaps the address to /photos/<id> while it's open, so only take
+  // the query while we're actually on the gallery's own URL.
+  const [filterQuery, setFilterQuery] = useState(() => searchParams.toString())
+  useEffect(() => {
+    if (pathname === '/') {
+      setFilterQuery(searchParams.toString())
+    }
+  }, [pathname, searchParams])
+  const filters = useMemo(
+    () => parsePhotoFilters(new URLSearchParams(filterQuery)),
+    [filterQuery]
+  )
+  const isFiltered = hasActivePhotoFilters(filters)
+
+  // The grid shows photos as they were added; the timeline orders by date taken
+  const sort: PhotoSort = view === 'timeline' ? 'photo_date' : 'uploaded_at'
+
+  const changeView = (newView: GalleryView) => {
+    localStorage.setItem(GALLERY_VIEW_KEY, newView)
+    setJumpedToYear(null)
+    setView(newView)
+  }
+
+  const changeFilters = (newFilters: PhotoFilters) => {
+    const query = photoFiltersToParams(newFilters).toString()
+    setJumpedToYear(null)
+    router.replace(query ? `/?${query}` : '/', { scroll: false })
+  }
+
+  // Everyone who has uploaded a photo we've loaded, for the uploader filter.
+  // The list only grows, so narrowing to one person doesn't hide the others.
+  const rememberUploaders = useCallback((newPhotos: PhotoWithProfile[]) => {
+    setUploaders(prev => {
+      const known = new Map(prev.map(profile => [profile.id, profile]))
+      newPhotos.forEach(photo => {
+        if (photo.uploader_profile && !known.has(photo.uploader_profile.id)) {
+          known.set(photo.uploader_profile.id, photo.uploader_profile)
+        }
+      })
+      return known.size === prev.length
+        ? prev
+        : Array.from(known.values()).sort((a, b) => getDisplayName(a).localeCompare(getDisplayName(b)))
+    })
+  }, [])
+
   useEffect(() => {
     const getUser = async () => {
       const { data: { user } } = await supabase.auth.getUser()
@@ -65,77 +145,77 @@ export default function Home() {
     return () => subscription.unsubscribe()
   }, [supabase])
 
-  const getImageUrl = useCallback(async (filePath: string): Promise<string | null> => {
+  // Bumped by every fresh load. A page that arrives after the filters, sort
+  // or starting point changed belongs to the old list, so it's dropped.
+  const loadGeneration = useRef(0)
+
+  const loadPhotos = useCallback(async (cursor: PhotoCursor | null = null) => {
+    const generation = ++loadGeneration.current
+    setLoadingPhotos(true)
     try {
-      const { data, error } = await supabase.storage
-        .from('family-photos')
-        .createSignedUrl(filePath, 60 * 60) // 1 hour expiry
-      
-      if (error) {
-        console.error('Error creating signed URL:', error)
-        return null
+      const page = await getPhotosPage({ cursor, sort, filters })
+      if (generation !== loadGeneration.current) return
+      setPhotos(page.photos)
+      setNextCursor(page.nextCursor)
+      rememberUploaders(page.photos)
+
+      // Load reactions for the first page only; later pages bring their own
+      try {
+        const reactions = await loadMultiplePhotoReactions(page.photos.map(photo => photo.id))
+        if (generation !== loadGeneration.current) return
+        setPhotoReactions(reactions)
+      } catch (error) {
+        console.error('Error loading photo reactions:', error)
+        // Set empty reactions if loading fails
+        if (generation === loadGeneration.current) {
+          setPhotoReactions({})
+        }
       }
-      
-      return data.signedUrl
     } catch (error) {
-      console.error('Error getting image URL:', error)
-      return null
+      console.error('Error loading photos:', error)
+    } finally {
+      // A newer load is still running and owns the spinner
+      if (generation === loadGeneration.current) {
+        setLoadingPhotos(false)
+      }
     }
-  }, [supabase])
+  }, [sort, filters, rememberUploaders])
 
-  const loadPhotos = useCallback(async () => {
-    setLoadingPhotos(true)
+  const loadMorePhotos = useCallback(async () => {
+    if (!nextCursor || loadingMorePhotos) return
+
+    const generation = loadGeneration.current
+    setLoadingMorePhotos(true)
     try {
-      // First get photos
-      const { data, error } = await supabase
-        .from('photos')
-        .select('*')
-        .order('uploaded_at', { ascending: false })
-
-      if (error) {
-        console.error('Error loading photos:', error)
-      } else if (data) {
-        // Get unique uploader IDs
-        const uploaderIds = [...new Set(data.map(photo => photo.uploaded_by))]
-        
-        // Get profiles for all uploaders
-        const { data: profiles } = await supabase
-          .from('profiles')
-          .select('*')
-          .in('id', uploaderIds)
-        
-        // Create a map of profiles by ID
-        const profileMap = new Map(profiles?.map(profile => [profile.id, profile]) || [])
-        
-        // Get signed URLs for all photos and add profile data
-        const photosWithUrls = await Promise.all(
-          data.map(async (photo) => ({
-            ...photo,
-            imageUrl: await getImageUrl(photo.file_path),
-            uploader_profile: profileMap.get(photo.uploaded_by) || null
-          }))
-        )
-        setPhotos(photosWithUrls)
-        
-        // Load reactions for all photos
-        const photoIds = photosWithUrls.map(photo => photo.id)
-        if (photoIds.length > 0) {
-          try {
-            const reactions = await loadMultiplePhotoReactions(photoIds)
-            setPhotoReactions(reactions)
-          } catch (error) {
-            console.error('Error loading photo reactions:', error)
-            // Set empty reactions if loading fails
-            setPhotoReactions({})
-          }
-        }
+      const page = await getPhotosPage({ cursor: nextCursor, sort, filters })
+      if (generation !== loadGeneration.current) return
+      setPhotos(prev => {
+        // Guard against the same page being appended twice
+        const seen = new Set(prev.map(photo => photo.id))
+        return [...prev, ...page.photos.filter(photo => !seen.has(photo.id))]
+      })
+      setNextCursor(page.nextCursor)
+      rememberUploaders(page.photos)
+
+      try {
+        const reactions = await loadMultiplePhotoReactions(page.photos.map(photo => photo.id))
+        if (generation !== loadGeneration.current) return
+        setPhotoReactions(prev => ({ ...prev, ...reactions }))
+      } catch (error) {
+        console.error('Error loading photo reactions:', error)
       }
     } catch (error) {
-      console.error('Error loading photos:', error)
+      console.error('Error loading more photos:', error)
     } finally {
-      setLoadingPhotos(false)
+      setLoadingMorePhotos(false)
     }
-  }, [supabase, getImageUrl])
+  }, [nextCursor, loadingMorePhotos, sort, filters, rememberUploaders])
+
+  const loadMoreRef = useInfiniteScroll({
+    onLoadMore: loadMorePhotos,
+    hasMore: nextCursor !== null,
+    loading: loadingPhotos || loadingMorePhotos
+  })
 
   useEffect(() => {
     if (user) {
@@ -143,6 +223,90 @@ export default function Home() {
     }
   }, [user, loadPhotos])
 
+  // Photos uploaded from anywhere in the app join the top of the feed as
+  // they finish, without reloading the pages already scrolled through
+  const uploads = useUploadQueue(user?.id)
+  const finishedUploadCount = uploads.filter(upload => upload.status === 'done').length
+  const handledUploadCount = useRef<number | null>(null)
+  const photosRef = useRef(photos)
+
+  useEffect(() => {
+    photosRef.current = photos
+  }, [photos])
+
+  const showNewPhotos = useCallback(async () => {
+    // Only when looking at the newest photos
+    if (jumpedToYear !== null) return
+
+    const generation = loadGeneration.current
+    try {
+      const page = await getPhotosPage({ sort, filters })
+      if (generation !== loadGeneration.current) return
+      const current = photosRef.current
+      const topIndex = current.length > 0
+        ? page.photos.findIndex(photo => photo.id === current[0].id)
+        : page.photos.length
+      if (topIndex === -1) {
+        // More new photos than fit on a page, or the top one has gone
+        await loadPhotos()
+        return
+      }
+
+      const seen = new Set(current.map(photo => photo.id))
+      const newPhotos = page.photos.slice(0, topIndex).filter(photo => !seen.has(photo.id))
+      if (newPhotos.length === 0) return
+
+      setPhotos(prev => {
+        // A first page may have arrived in the meantime
+        const loaded = new Set(prev.map(photo => photo.id))
+        return [...newPhotos.filter(photo => !loaded.has(photo.id)), ...prev]
+      })
+      // Keep the modal on the photo it's showing
+      setSelectedPhotoIndex(index => index === null ? null : index + newPhotos.length)
+      if (current.length === 0) {
+        setNextCursor(page.nextCursor)
+      }
+      rememberUploaders(newPhotos)
+
+      const reactions = await loadMultiplePhotoReactions(newPhotos.map(photo => photo.id))
+      setPhotoReactions(prev => ({ ...prev, ...reactions }))
+    } catch (error) {
+      console.error('Error loading new photos:', error)
+    }
+  }, [jumpedToYear, sort, filters, loadPhotos, rememberUploaders])
+
+  useEffect(() => {
+    if (!user) return
+    // Uploads that finished before the gallery loaded are already in it
+    if (handledUploadCount.current === null) {
+      handledUploadCount.current = finishedUploadCount
+      return
+    }
+    if (finishedUploadCount > handledUploadCount.current) {
+      showNewPhotos()
+    }
+    handledUploadCount.current = finishedUploadCount
+  }, [user, finishedUploadCount, showNewPhotos])
+
+  useEffect(() => {
+    if (user && view === 'timeline') {
+      getPhotoYears().then(setPhotoYears)
+    }
+  }, [user, view])
+
+  // Jumping to a year that isn't loaded yet starts the feed from that year
+  const jumpToYear = async (year: number) => {
+    setJumpedToYear(year)
+    window.scrollTo({ top: 0 })
+    await loadPhotos(getYearCursor(year))
+  }
+
+  const backToNewest = async () => {
+    setJumpedToYear(null)
+    window.scrollTo({ top: 0 })
+    await loadPhotos()
+  }
+
   const signIn = async () => {
     if (!email) {
       alert('Please enter your email')
@@ -171,6 +335,10 @@ export default function Home() {
   const goToNext = () => {
     if (selectedPhotoIndex !== null && selectedPhotoIndex < photos.length - 1) {
       setSelectedPhotoIndex(selectedPhotoIndex + 1)
+      // Fetch the next page before the modal runs out of photos
+      if (selectedPhotoIndex + 2 >= photos.length) {
+        loadMorePhotos()
+      }
     }
   }
 
@@ -180,6 +348,16 @@ export default function Home() {
     }
   }
 
+  const handlePhotoDeleted = (photoId: string) => {
+    setPhotos(prev => prev.filter(photo => photo.id !== photoId))
+  }
+
+  const handlePhotoUpdated = (updatedPhoto: Photo) => {
+    setPhotos(prev => prev.map(photo =>
+      photo.id === updatedPhoto.id ? { ...photo, ...updatedPhoto } : photo
+    ))
+  }
+
   // Handle heart reaction for gallery photos
   const handleGalleryHeartReaction = useCallback(async (photoId: string) => {
     try {
@@ -277,6 +455,12 @@ export default function Home() {
     console.log('Album created with ID:', albumId)
   }
 
+  const handleAddedToAlbum = () => {
+    // The modal stays open to show what was added
+    setIsSelectionMode(false)
+    setSelectedPhotoIds(new Set())
+  }
+
   // Component for individual gallery photo with reactions
   const GalleryPhoto = ({ photo, index }: { photo: PhotoWithProfile; index: number }) => {
     const photoReactionsList = photoReactions[photo.id] || []
@@ -304,7 +488,7 @@ export default function Home() {
     return (
       <div key={photo.id} className="bg-white rounded-lg shadow overflow-hidden">
         <div 
-          className={`aspect-square relative cursor-pointer transition-all duration-200 select-none ${
+          className={`aspect-square relative overflow-hidden cursor-pointer transition-all duration-200 select-none ${
             isSelectionMode 
               ? (isSelected ? 'ring-4 ring-blue-500 opacity-80' : 'hover:ring-2 hover:ring-gray-300') 
               : 'hover:opacity-90'
@@ -315,30 +499,23 @@ export default function Home() {
           onTouchEnd={clickHandler.onTouchEnd}
         >
           {/* Selection checkbox */}
-          {isSelectionMode && (
-            <div className="absolute top-2 right-2 z-10">
-              <div className={`w-6 h-6 rounded-full border-2 flex items-center justify-center ${
-                isSelected 
-                  ? 'bg-blue-500 border-blue-500' 
-                  : 'bg-white border-gray-300 hover:border-blue-500'
-              }`}>
-                {isSelected && <Check className="w-4 h-4 text-white" />}
-              </div>
-            </div>
-          )}
+          {isSelectionMode && <SelectionCheck selected={isSelected} />}
           {photo.imageUrl ? (
-            <Image
+            <SignedImage
+              path={getPhotoVariantPath(photo, 'thumbnail')}
               src={photo.imageUrl}
               alt={photo.original_filename}
               fill
               className="object-cover"
               draggable={false}
+              {...getPlaceholderProps(photo)}
             />
           ) : (
-            <div className="w-full h-full bg-gray-200 flex items-center justify-center">
+            <PhotoPlaceholder placeholder={photo.placeholder}>
               <p className="text-gray-500">Loading...</p>
-            </div>
+            </PhotoPlaceholder>
           )}
+          {photo.media_type === 'video' && <VideoBadge duration={photo.duration} />}
         </div>
         
         {/* Reactions below photo */}
@@ -470,6 +647,15 @@ export default function Home() {
                 </span>
               </div>
               <div className="flex items-center space-x-3">
+                {selectedPhotoIds.size >= 1 && (
+                  <button
+                    onClick={() => setShowAddToAlbumModal(true)}
+                    className="inline-flex items-center px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+                  >
+                    <FolderInput className="w-4 h-4 mr-2" />
+                    Add to Album
+                  </button>
+                )}
                 {selectedPhotoIds.size >= 2 && (
                   <button
                     onClick={createAlbumFromSelection}
@@ -491,7 +677,31 @@ export default function Home() {
             <>
               <h1 className="text-3xl font-bold text-gray-900">Our Photos</h1>
               <div className="flex items-center space-x-4">
-                <p className="text-gray-600">{photos.length} photos</p>
+                <p className="text-gray-600">
+                  {photos.length}{nextCursor ? '+' : ''} photos
+                </p>
+                <div className="inline-flex rounded-lg border border-gray-300 overflow-hidden">
+                  <button
+                    onClick={() => changeView('grid')}
+                    className={`inline-flex items-center px-3 py-2 text-sm transition-colors ${
+                      view === 'grid' ? 'bg-gray-100 text-gray-900' : 'text-gray-600 hover:bg-gray-50'
+                    }`}
+                    title="Newest uploads first"
+                  >
+                    <LayoutGrid className="w-4 h-4 mr-1" />
+                    Grid
+                  </button>
+                  <button
+                    onClick={() => changeView('timeline')}
+                    className={`inline-flex items-center px-3 py-2 text-sm border-l border-gray-300 transition-colors ${
+                      view === 'timeline' ? 'bg-gray-100 text-gray-900' : 'text-gray-600 hover:bg-gray-50'
+                    }`}
+                    title="Grouped by the date each photo was taken"
+                  >
+                    <CalendarDays className="w-4 h-4 mr-1" />
+                    Timeline
+                  </button>
+                </div>
                 {photos.length > 0 && (
                   <button
                     onClick={toggleSelectionMode}
@@ -505,10 +715,28 @@ export default function Home() {
           )}
         </div>
 
+        {(photos.length > 0 || isFiltered) && (
+          <PhotoFilterBar
+            filters={filters}
+            uploaders={uploaders}
+            onChange={changeFilters}
+          />
+        )}
+
         {loadingPhotos ? (
           <div className="text-center py-12">
             <p className="text-gray-500">Loading photos...</p>
           </div>
+        ) : photos.length === 0 && isFiltered ? (
+          <div className="text-center py-12">
+            <p className="text-gray-500 mb-4">No photos match these filters.</p>
+            <button
+              onClick={() => changeFilters(EMPTY_PHOTO_FILTERS)}
+              className="text-blue-600 hover:text-blue-800 text-sm font-medium"
+            >
+              Clear filters
+            </button>
+          </div>
         ) : photos.length === 0 ? (
           <div className="text-center py-12">
             <p className="text-gray-500 mb-4">No photos yet. Start sharing your memories!</p>
@@ -520,11 +748,41 @@ export default function Home() {
             </a>
           </div>
         ) : (
-          <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
-            {photos.map((photo, index) => (
-              <GalleryPhoto key={photo.id} photo={photo} index={index} />
-            ))}
-          </div>
+          <>
+            {jumpedToYear !== null && (
+              <div className="flex items-center justify-between mb-4 px-4 py-2 bg-blue-50 border border-blue-200 rounded-lg text-sm text-blue-800">
+                <span>Showing photos from {jumpedToYear} and earlier</span>
+                <button onClick={backToNewest} className="font-medium hover:text-blue-900">
+                  Back to newest
+                </button>
+              </div>
+            )}
+
+            {view === 'timeline' ? (
+              <PhotoTimeline
+                photos={photos}
+                years={photoYears}
+                onJumpToYear={jumpToYear}
+                renderPhoto={(photo, index) => (
+                  <GalleryPhoto key={photo.id} photo={photo} index={index} />
+                )}
+              />
+            ) : (
+              <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
+                {photos.map((photo, index) => (
+                  <GalleryPhoto key={photo.id} photo={photo} index={index} />
+                ))}
+              </div>
+            )}
+
+            {/* Infinite scroll sentinel */}
+            <div ref={loadMoreRef} className="h-1" />
+            {loadingMorePhotos && (
+              <div className="text-center py-6">
+                <p className="text-gray-500">Loading more photos...</p>
+              </div>
+            )}
+          </>
         )}
       </div>
     </Layout>
@@ -538,6 +796,8 @@ export default function Home() {
         onClose={closeModal}
         onNext={goToNext}
         onPrevious={goToPrevious}
+        onPhotoDeleted={handlePhotoDeleted}
+        onPhotoUpdated={handlePhotoUpdated}
       />
     )}
 
@@ -548,6 +808,31 @@ export default function Home() {
       selectedPhotoIds={Array.from(selectedPhotoIds)}
       onSuccess={handleAlbumCreated}
     />
+
+    {/* Add to Album Modal */}
+    <AddToAlbumModal
+      isOpen={showAddToAlbumModal}
+      onClose={() => setShowAddToAlbumModal(false)}
+      selectedPhotos={photos.filter(photo => selectedPhotoIds.has(photo.id))}
+      onSuccess={handleAddedToAlbum}
+    />
   </>
   )
+}
+
+export default function Home() {
+  // useSearchParams needs a Suspense boundary to prerender
+  return (
+    <Suspense
+      fallback={
+        <main className="flex min-h-screen flex-col items-center justify-center p-24">
+          <div className="text-center">
+            <h1 className="text-4xl font-bold mb-8">Loading...</h1>
+          </div>
+        </main>
+      }
+    >
+      <Gallery />
+    </Suspense>
+  )
 }
\ No newline at end of file
@@ -0,0 +1,373 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useRouter, useParams } from 'next/navigation'
+import { createClient } from '@/lib/supabase/client'
+import { User } from '@supabase/supabase-js'
+import Layout from '@/components/Layout'
+import Image from 'next/image'
+import Link from 'next/link'
+import CommentsList from '@/components/CommentsList'
+import AddComment from '@/components/AddComment'
+import ReactionButton from '@/components/ReactionButton'
+import ReactionSummary from '@/components/ReactionSummary'
+import CaptionEditor from '@/components/CaptionEditor'
+import PhotoInfoPanel from '@/components/PhotoInfoPanel'
+import SignedImage from '@/components/SignedImage'
+import SignedVideo from '@/components/SignedVideo'
+import {
+  getPhoto,
+  getAdjacentPhotoIds,
+  trashPhoto,
+  getPhotoVariantPath,
+  type PhotoWithProfile
+} from '@/lib/supabase/photos'
+import { getDisplayName, getAvatarUrl } from '@/lib/supabase/profiles'
+import { getFamilySettings, type CaptionEditPolicy } from '@/lib/supabase/settings'
+import {
+  loadComments,
+  addComment,
+  updateComment,
+  deleteComment,
+  type Comment
+} from '@/lib/comments'
+import {
+  getReactionSummary,
+  type ReactionSummary as ReactionSummaryType
+} from '@/lib/reactions'
+import {
+  ArrowLeft,
+  ChevronLeft,
+  ChevronRight,
+  Images,
+  Trash2,
+  User as UserIcon
+} from 'lucide-react'
+
+export default function PhotoDetailPage() {
+  const params = useParams()
+  const photoId = params.id as string
+  const router = useRouter()
+  const [user, setUser] = useState<User | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [photo, setPhoto] = useState<PhotoWithProfile | null>(null)
+  const [loadingPhoto, setLoadingPhoto] = useState(true)
+  const [previousId, setPreviousId] = useState<string | null>(null)
+  const [nextId, setNextId] = useState<string | null>(null)
+  const [comments, setComments] = useState<Comment[]>([])
+  const [commentsLoading, setCommentsLoading] = useState(false)
+  const [reactions, setReactions] = useState<ReactionSummaryType[]>([])
+  const [captionEditPolicy, setCaptionEditPolicy] = useState<CaptionEditPolicy>('owner')
+  const supabase = createClient()
+
+  useEffect(() => {
+    const getUser = async () => {
+      const { data: { user } } = await supabase.auth.getUser()
+      if (!user) {
+        router.push('/')
+        return
+      }
+      setUser(user)
+      setLoading(false)
+
+      const settings = await getFamilySettings()
+      setCaptionEditPolicy(settings.caption_edit_policy)
+    }
+    getUser()
+  }, [supabase, router])
+
+  const loadPhoto = useCallback(async () => {
+    setLoadingPhoto(true)
+    try {
+      const photoData = await getPhoto(photoId)
+      setPhoto(photoData)
+
+      if (photoData) {
+        const adjacent = await getAdjacentPhotoIds(photoData)
+        setPreviousId(adjacent.previousId)
+        setNextId(adjacent.nextId)
+      }
+    } catch (error) {
+      console.error('Error loading photo:', error)
+      setPhoto(null)
+    } finally {
+      setLoadingPhoto(false)
+    }
+  }, [photoId])
+
+  const loadPhotoComments = useCallback(async () => {
+    setCommentsLoading(true)
+    try {
+      setComments(await loadComments(photoId))
+    } catch (error) {
+      console.error('Error loading comments:', error)
+      setComments([])
+    } finally {
+      setCommentsLoading(false)
+    }
+  }, [photoId])
+
+  const loadPhotoReactions = useCallback(async () => {
+    try {
+      setReactions(await getReactionSummary(photoId))
+    } catch (error) {
+      console.error('Error loading reactions:', error)
+      setReactions([])
+    }
+  }, [photoId])
+
+  useEffect(() => {
+    if (user && photoId) {
+      loadPhoto()
+      loadPhotoComments()
+      loadPhotoReactions()
+    }
+  }, [user, photoId, loadPhoto, loadPhotoComments, loadPhotoReactions])
+
+  // Arrow keys step through the feed like the modal does
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.target instanceof HTMLInputElement || event.target instanceof HTMLTextAreaElement) {
+        return
+      }
+      if (event.key === 'ArrowLeft' && previousId) {
+        router.push(`/photos/${previousId}`)
+      } else if (event.key === 'ArrowRight' && nextId) {
+        router.push(`/photos/${nextId}`)
+      }
+    }
+
+    document.addEventListener('keydown', handleKeyDown)
+    return () => document.removeEventListener('keydown', handleKeyDown)
+  }, [router, previousId, nextId])
+
+  const handleDeletePhoto = async () => {
+    if (!photo) return
+
+    const confirmed = confirm('Move this photo to the trash? You can restore it from the Trash page for 30 days.')
+    if (!confirmed) return
+
+    try {
+      await trashPhoto(photo.id)
+      router.push(nextId ? `/photos/${nextId}` : '/')
+    } catch (error) {
+      console.error('Error deleting photo:', error)
+      alert('Failed to delete photo. Please try again.')
+    }
+  }
+
+  const handleAddComment = async (photoId: string, commentText: string) => {
+    const newComment = await addComment(photoId, commentText)
+    setComments(prev => [...prev, newComment])
+  }
+
+  const handleEditComment = async (commentId: string, newText: string) => {
+    const updatedComment = await updateComment(commentId, newText)
+    setComments(prev =>
+      prev.map(comment => comment.id === commentId ? updatedComment : comment)
+    )
+  }
+
+  const handleDeleteComment = async (commentId: string) => {
+    await deleteComment(commentId)
+    setComments(prev => prev.filter(comment => comment.id !== commentId))
+  }
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric'
+    })
+  }
+
+  if (loading) {
+    return (
+      <main className="flex min-h-screen flex-col items-center justify-center p-24">
+        <div className="text-center">
+          <h1 className="text-4xl font-bold mb-8">Loading...</h1>
+        </div>
+      </main>
+    )
+  }
+
+  if (!loadingPhoto && !photo) {
+    return (
+      <Layout user={user!}>
+        <div className="text-center py-12">
+          <Images className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+          <h1 className="text-2xl font-bold text-gray-900 mb-4">Photo not found</h1>
+          <Link href="/" className="text-blue-600 hover:text-blue-800">
+            ← Back to Photos
+          </Link>
+        </div>
+      </Layout>
+    )
+  }
+
+  return (
+    <Layout user={user!}>
+      <div className="max-w-7xl mx-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-6">
+          <Link
+            href="/"
+            className="flex items-center text-gray-600 hover:text-gray-900"
+          >
+            <ArrowLeft className="w-5 h-5 mr-1" />
+            Photos
+          </Link>
+
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={() => previousId && router.push(`/photos/${previousId}`)}
+              disabled={!previousId}
+              className="flex items-center px-3 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors"
+              aria-label="Previous photo"
+            >
+              <ChevronLeft className="w-4 h-4 mr-1" />
+              Newer
+            </button>
+            <button
+              onClick={() => nextId && router.push(`/photos/${nextId}`)}
+              disabled={!nextId}
+              className="flex items-center px-3 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors"
+              aria-label="Next photo"
+            >
+              Older
+              <ChevronRight className="w-4 h-4 ml-1" />
+            </button>
+          </div>
+        </div>
+
+        {loadingPhoto || !photo ? (
+          <div className="text-center py-12">
+            <p className="text-gray-500">Loading photo...</p>
+          </div>
+        ) : (
+          <div className="flex flex-col lg:flex-row gap-6">
+            {/* Photo */}
+            <div className="flex-1 lg:w-2/3">
+              <div className="relative w-full bg-black rounded-lg overflow-hidden" style={{ height: 'calc(100vh - 220px)', minHeight: '300px' }}>
+                {photo.media_type === 'video' ? (
+                  <SignedVideo
+                    path={photo.file_path}
+                    posterPath={getPhotoVariantPath(photo, 'medium')}
+                    className="w-full h-full object-contain"
+                  />
+                ) : photo.imageUrl ? (
+                  <SignedImage
+                    path={getPhotoVariantPath(photo, 'full')}
+                    src={photo.imageUrl}
+                    alt={photo.original_filename}
+                    fill
+                    className="object-contain"
+                    priority
+                    sizes="(max-width: 1024px) 95vw, 65vw"
+                  />
+                ) : (
+                  <div className="w-full h-full flex items-center justify-center">
+                    <Images className="w-16 h-16 text-gray-500" />
+                  </div>
+                )}
+              </div>
+            </div>
+
+            {/* Info, reactions and comments */}
+            <div className="w-full lg:w-1/3 lg:max-w-md space-y-4">
+              <div className="bg-white rounded-lg shadow p-4 space-y-3">
+                <h1 className="text-lg font-semibold text-gray-900">
+                  {photo.original_filename}
+                </h1>
+                <CaptionEditor
+                  photo={photo}
+                  currentUserId={user?.id || null}
+                  editPolicy={captionEditPolicy}
+                  onCaptionChange={(updatedPhoto) => setPhoto({ ...photo, ...updatedPhoto })}
+                  variant="light"
+                />
+
+                {/* Uploader Information */}
+                <div className="flex items-center space-x-2">
+                  {getAvatarUrl(photo.uploader_profile) ? (
+                    <Image
+                      src={getAvatarUrl(photo.uploader_profile)!}
+                      alt="Uploader"
+                      width={24}
+                      height={24}
+                      className="rounded-full object-cover"
+                    />
+                  ) : (
+                    <UserIcon className="w-5 h-5 text-gray-400" />
+                  )}
+                  <div>
+                    <p className="text-sm text-gray-700">
+                      by {getDisplayName(photo.uploader_profile)}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {formatDate(photo.uploaded_at)}
+                    </p>
+                  </div>
+                  {user?.id === photo.uploaded_by && (
+                    <button
+                      onClick={handleDeletePhoto}
+                      className="ml-auto flex items-center text-sm text-gray-500 hover:text-red-600 transition-colors"
+                      title="Move to trash"
+                    >
+                      <Trash2 className="w-4 h-4 mr-1" />
+                      Delete
+                    </button>
+                  )}
+                </div>
+
+                <PhotoInfoPanel photo={photo} variant="light" />
+              </div>
+
+              <div className="bg-white rounded-lg shadow p-4">
+                <h2 className="text-lg font-semibold text-gray-900 mb-3">
+                  Reactions
+                </h2>
+                <div className="flex items-center gap-3 flex-wrap">
+                  <ReactionButton
+                    photoId={photo.id}
+                    onReactionChange={loadPhotoReactions}
+                    size="md"
+                  />
+                  {reactions.length > 0 && (
+                    <ReactionSummary
+                      reactions={reactions}
+                      size="md"
+                      layout="horizontal"
+                      maxDisplay={7}
+                    />
+                  )}
+                </div>
+              </div>
+
+              <div className="bg-white rounded-lg shadow p-4">
+                <h2 className="text-lg font-semibold text-gray-900 mb-4">
+                  Comments ({comments.length})
+                </h2>
+                <div className="mb-4">
+                  <CommentsList
+                    comments={comments}
+                    currentUserId={user?.id || null}
+                    onEditComment={handleEditComment}
+                    onDeleteComment={handleDeleteComment}
+                    loading={commentsLoading}
+                  />
+                </div>
+                <div className="border-t border-gray-200 pt-4">
+                  <AddComment
+                    photoId={photo.id}
+                    onAddComment={handleAddComment}
+                  />
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </Layout>
+  )
+}
@@ -0,0 +1,327 @@
+'use client'
+
+import { useState, useEffect, Suspense } from 'react'
+import { useRouter, useSearchParams } from 'next/navigation'
+import { createClient } from '@/lib/supabase/client'
+import { User } from '@supabase/supabase-js'
+import Layout from '@/components/Layout'
+import Link from 'next/link'
+import HighlightedText from '@/components/HighlightedText'
+import SignedImage from '@/components/SignedImage'
+import PhotoPlaceholder from '@/components/PhotoPlaceholder'
+import VideoBadge from '@/components/VideoBadge'
+import { getAllProfiles, getDisplayName, type Profile } from '@/lib/supabase/profiles'
+import { getPhotoVariantPath, getPlaceholderProps } from '@/lib/supabase/photos'
+import { parsePhotoFilters, startOfDay } from '@/lib/photoFilters'
+import type { SearchFilters, SearchResponse, SearchMatchSource } from '@/types/search'
+import { Search, Images, FolderOpen, X } from 'lucide-react'
+
+const MATCH_LABELS: Record<SearchMatchSource, string> = {
+  caption: 'Caption',
+  comment: 'Comment',
+  uploader: 'Uploaded by'
+}
+
+const loadingScreen = (
+  <main className="flex min-h-screen flex-col items-center justify-center p-24">
+    <div className="text-center">
+      <h1 className="text-4xl font-bold mb-8">Loading...</h1>
+    </div>
+  </main>
+)
+
+function SearchResults() {
+  const [user, setUser] = useState<User | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [results, setResults] = useState<SearchResponse | null>(null)
+  const [searching, setSearching] = useState(false)
+  const [error, setError] = useState('')
+  const [profiles, setProfiles] = useState<Profile[]>([])
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const supabase = createClient()
+
+  // The URL is the source of truth so searches can be shared and go back/forward
+  const filters: SearchFilters = {
+    q: searchParams.get('q') || '',
+    uploader: searchParams.get('uploader') || '',
+    from: searchParams.get('from') || '',
+    to: searchParams.get('to') || ''
+  }
+  const [queryText, setQueryText] = useState(filters.q)
+  const hasFilters = Boolean(filters.uploader || filters.from || filters.to)
+
+  useEffect(() => {
+    const getUser = async () => {
+      const { data: { user } } = await supabase.auth.getUser()
+      if (!user) {
+        router.push('/')
+        return
+      }
+      setUser(user)
+      setLoading(false)
+    }
+    getUser()
+  }, [supabase, router])
+
+  useEffect(() => {
+    if (user) {
+      getAllProfiles().then(setProfiles)
+    }
+  }, [user])
+
+  useEffect(() => {
+    setQueryText(searchParams.get('q') || '')
+  }, [searchParams])
+
+  useEffect(() => {
+    if (!user) return
+
+    const query = searchParams.get('q')?.trim()
+    if (!query) {
+      setResults(null)
+      return
+    }
+
+    let cancelled = false
+    const runSearch = async () => {
+      setSearching(true)
+      setError('')
+      try {
+        // Day boundaries are worked out here, in the user's own timezone
+        const { uploader, from, to } = parsePhotoFilters(searchParams)
+        const apiParams = new URLSearchParams({ q: query })
+        if (uploader) apiParams.set('uploader', uploader)
+        if (from) apiParams.set('from', startOfDay(from))
+        if (to) apiParams.set('to', startOfDay(to, true))
+
+        const response = await fetch(`/api/search?${apiParams.toString()}`)
+        const data = await response.json()
+
+        if (!response.ok) {
+          throw new Error(data.error || 'Search failed')
+        }
+        if (!cancelled) {
+          setResults(data)
+        }
+      } catch (error) {
+        console.error('Error searching:', error)
+        if (!cancelled) {
+          setError(error instanceof Error ? error.message : 'Search failed')
+        }
+      } finally {
+        if (!cancelled) {
+          setSearching(false)
+        }
+      }
+    }
+    runSearch()
+
+    return () => {
+      cancelled = true
+    }
+  }, [user, searchParams])
+
+  const updateFilters = (updates: Partial<SearchFilters>) => {
+    const params = new URLSearchParams(searchParams.toString())
+    Object.entries(updates).forEach(([key, value]) => {
+      if (value) {
+        params.set(key, value)
+      } else {
+        params.delete(key)
+      }
+    })
+    router.replace(`/search?${params.toString()}`)
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    updateFilters({ q: queryText.trim() })
+  }
+
+  if (loading) {
+    return loadingScreen
+  }
+
+  const totalResults = results ? results.photos.length + results.albums.length : 0
+
+  return (
+    <Layout user={user!}>
+      <div className="max-w-7xl mx-auto">
+        {/* Search form */}
+        <form onSubmit={handleSubmit} className="mb-4" role="search">
+          <div className="relative">
+            <Search className="w-5 h-5 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2 pointer-events-none" />
+            <input
+              type="search"
+              value={queryText}
+              onChange={(e) => setQueryText(e.target.value)}
+              placeholder="Search captions, comments, albums and people..."
+              autoFocus={!filters.q}
+              className="w-full pl-11 pr-3 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+        </form>
+
+        {/* Filters */}
+        <div className="flex flex-wrap items-end gap-4 mb-8">
+          <div>
+            <label htmlFor="uploader" className="block text-xs font-medium text-gray-600 mb-1">
+              Uploaded by
+            </label>
+            <select
+              id="uploader"
+              value={filters.uploader}
+              onChange={(e) => updateFilters({ uploader: e.target.value })}
+              className="px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">Anyone</option>
+              {profiles.map(profile => (
+                <option key={profile.id} value={profile.id}>
+                  {getDisplayName(profile)}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="from" className="block text-xs font-medium text-gray-600 mb-1">
+              From
+            </label>
+            <input
+              id="from"
+              type="date"
+              value={filters.from}
+              max={filters.to || undefined}
+              onChange={(e) => updateFilters({ from: e.target.value })}
+              className="px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div>
+            <label htmlFor="to" className="block text-xs font-medium text-gray-600 mb-1">
+              To
+            </label>
+            <input
+              id="to"
+              type="date"
+              value={filters.to}
+              min={filters.from || undefined}
+              onChange={(e) => updateFilters({ to: e.target.value })}
+              className="px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          {hasFilters && (
+            <button
+              onClick={() => updateFilters({ uploader: '', from: '', to: '' })}
+              className="inline-flex items-center px-3 py-2 text-sm text-gray-600 hover:text-gray-900"
+            >
+              <X className="w-4 h-4 mr-1" />
+              Clear filters
+            </button>
+          )}
+        </div>
+
+        {!filters.q ? (
+          <div className="text-center py-12">
+            <Search className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+            <p className="text-gray-600">
+              Search for words in captions and comments, album names, or who uploaded a photo.
+            </p>
+          </div>
+        ) : searching && !results ? (
+          <div className="text-center py-12">
+            <p className="text-gray-500">Searching...</p>
+          </div>
+        ) : error ? (
+          <div className="text-center py-12">
+            <p className="text-red-600">{error}</p>
+          </div>
+        ) : totalResults === 0 ? (
+          <div className="text-center py-12">
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No results for &ldquo;{filters.q}&rdquo;</h3>
+            <p className="text-gray-600">Try different words{hasFilters ? ' or clear the filters' : ''}.</p>
+          </div>
+        ) : (
+          <div className={`space-y-10 transition-opacity ${searching ? 'opacity-50' : ''}`}>
+            {results!.albums.length > 0 && (
+              <section>
+                <h2 className="text-lg font-semibold text-gray-900 mb-4">
+                  Albums ({results!.albums.length})
+                </h2>
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+                  {results!.albums.map(({ album, name_headline, description_headline }) => (
+                    <Link
+                      key={album.id}
+                      href={`/albums/${album.id}`}
+                      className="flex items-start p-4 bg-white rounded-lg shadow hover:shadow-md transition-shadow"
+                    >
+                      <FolderOpen className="w-6 h-6 text-blue-500 mr-3 flex-shrink-0" />
+                      <div className="min-w-0">
+                        <HighlightedText text={name_headline} className="block font-medium text-gray-900" />
+                        {description_headline && (
+                          <HighlightedText text={description_headline} className="block text-sm text-gray-600 mt-1" />
+                        )}
+                        <p className="text-xs text-gray-500 mt-2">
+                          by {getDisplayName(album.creator || null)}
+                        </p>
+                      </div>
+                    </Link>
+                  ))}
+                </div>
+              </section>
+            )}
+
+            {results!.photos.length > 0 && (
+              <section>
+                <h2 className="text-lg font-semibold text-gray-900 mb-4">
+                  Photos ({results!.photos.length})
+                </h2>
+                <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
+                  {results!.photos.map(({ photo, matched_in, headline }) => (
+                    <Link
+                      key={photo.id}
+                      href={`/photos/${photo.id}`}
+                      className="bg-white rounded-lg shadow overflow-hidden hover:shadow-md transition-shadow"
+                    >
+                      <div className="aspect-square relative">
+                        <SignedImage
+                          path={getPhotoVariantPath(photo, 'thumbnail')}
+                          alt={photo.original_filename}
+                          fill
+                          sizes="(max-width: 640px) 100vw, (max-width: 768px) 50vw, (max-width: 1024px) 33vw, 25vw"
+                          className="object-cover"
+                          fallback={
+                            <PhotoPlaceholder placeholder={photo.placeholder}>
+                              <Images className="w-8 h-8 text-gray-400" />
+                            </PhotoPlaceholder>
+                          }
+                          {...getPlaceholderProps(photo)}
+                        />
+                        {photo.media_type === 'video' && <VideoBadge duration={photo.duration} />}
+                      </div>
+                      <div className="p-3">
+                        <p className="text-xs font-medium text-gray-500 mb-1">{MATCH_LABELS[matched_in]}</p>
+                        <HighlightedText text={headline} className="block text-sm text-gray-700 line-clamp-3" />
+                        <p className="text-xs text-gray-500 mt-2">
+                          {new Date(photo.photo_date || photo.uploaded_at).toLocaleDateString()}
+                        </p>
+                      </div>
+                    </Link>
+                  ))}
+                </div>
+              </section>
+            )}
+          </div>
+        )}
+      </div>
+    </Layout>
+  )
+}
+
+export default function SearchPage() {
+  // useSearchParams needs a Suspense boundary to prerender
+  return (
+    <Suspense fallback={loadingScreen}>
+      <SearchResults />
+    </Suspense>
+  )
+}
@@ -0,0 +1,82 @@
+import type { Metadata } from 'next'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { getPhotoVariantPath, type Photo } from '@/lib/supabase/photos'
+
+// Link preview images are fetched whenever a chat app unfurls the link,
+// so they get longer than the in-app signed URLs
+const PREVIEW_URL_EXPIRY = 7 * 24 * 60 * 60
+
+// An album photo with the fields of its photo that a preview needs.
+// photos is a to-one embed, so it's a single object.
+interface PreviewRow {
+  photo_id: string
+  photos: Pick<Photo, 'id' | 'file_path' | 'thumbnail_path' | 'medium_path'>
+}
+
+/**
+ * Title, description and cover image for link previews of a shared album.
+ * Preview crawlers aren't signed in, so this reads with the service role,
+ * but only ever for a public album that hasn't expired.
+ */
+export async function generateMetadata({
+  params
+}: {
+  params: Promise<{ token: string }>
+}): Promise<Metadata> {
+  const { token } = await params
+  const supabase = createAdminClient()
+
+  const { data: album } = await supabase
+    .from('albums')
+    .select('id, name, description, cover_photo_id, expires_at')
+    .eq('share_token', token)
+    .eq('is_public', true)
+    .single()
+
+  if (!album || (album.expires_at && new Date(album.expires_at) < new Date())) {
+    return { title: 'Shared Album' }
+  }
+
+  const { data: albumPhotos } = await supabase
+    .from('album_photos')
+    .select('photo_id, photos!inner(id, file_path, thumbnail_path, medium_path)')
+    .eq('album_id', album.id)
+    .is('photos.deleted_at', null)
+    .order('position', { ascending: true })
+    .overrideTypes<PreviewRow[], { merge: false }>()
+
+  // The chosen cover, or the first photo if there isn't one
+  const photos = (albumPhotos || []).map(albumPhoto => albumPhoto.photos)
+  const cover = photos.find(photo => photo.id === album.cover_photo_id) || photos[0]
+
+  let imageUrl: string | null = null
+  if (cover) {
+    const { data } = await supabase.storage
+      .from('family-photos')
+      .createSignedUrl(getPhotoVariantPath(cover, 'medium'), PREVIEW_URL_EXPIRY)
+    imageUrl = data?.signedUrl || null
+  }
+
+  const description = album.description ||
+    `${photos.length} photo${photos.length !== 1 ? 's' : ''} shared with you`
+
+  return {
+    title: album.name,
+    description,
+    openGraph: {
+      title: album.name,
+      description,
+      type: 'website',
+      ...(imageUrl && { images: [{ url: imageUrl }] })
+    },
+    twitter: {
+      card: imageUrl ? 'summary_large_image' : 'summary',
+      title: album.name,
+      description
+    }
+  }
+}
+
+export default function SharedAlbumLayout({ children }: { children: React.ReactNode }) {
+  return children
+}
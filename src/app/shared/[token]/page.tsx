@@ -2,16 +2,21 @@
 
 import { useState, useEffect } from 'react'
 import { useParams } from 'next/navigation'
-import { createClient } from '@/lib/supabase/client'
-import Image from 'next/image'
 import { 
   getAlbumByToken, 
   getAlbumPhotos,
+  getAlbumCover,
   logAlbumView,
   type Album,
   type AlbumPhoto 
 } from '@/lib/supabase/albums'
 import { getDisplayName } from '@/lib/supabase/profiles'
+import { getPhotoVariantPath, getPlaceholderProps } from '@/lib/supabase/photos'
+import { getSignedUrls } from '@/lib/supabase/photoUrls'
+import PhotoPlaceholder from '@/components/PhotoPlaceholder'
+import SignedImage from '@/components/SignedImage'
+import SignedVideo from '@/components/SignedVideo'
+import VideoBadge from '@/components/VideoBadge'
 import { 
   Images,
   Calendar,
@@ -22,7 +27,8 @@ import {
 } from 'lucide-react'
 
 interface PhotoWithUrl extends AlbumPhoto {
-  imageUrl?: string | null
+  imageUrl?: string | null // thumbnail, for the grid
+  largeImageUrl?: string | null // medium size, for the lightbox
 }
 
 export default function SharedAlbumPage() {
@@ -33,7 +39,6 @@ export default function SharedAlbumPage() {
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [selectedPhotoIndex, setSelectedPhotoIndex] = useState<number | null>(null)
-  const supabase = createClient()
 
   useEffect(() => {
     if (token) {
@@ -69,29 +74,29 @@ export default function SharedAlbumPage() {
 
       // Get album photos
       const albumPhotos = await getAlbumPhotos(albumData.id)
+
+      // Show the tiles (with their blurred previews) while the URLs are signed
+      setPhotos(albumPhotos)
+      setLoading(false)
       
-      // Get signed URLs for photos
-      const photosWithUrls = await Promise.all(
-        albumPhotos.map(async (albumPhoto) => {
-          if (!albumPhoto.photo) return { ...albumPhoto, imageUrl: null }
-          
-          try {
-            const { data, error } = await supabase.storage
-              .from('family-photos')
-              .createSignedUrl(albumPhoto.photo.file_path, 60 * 60) // 1 hour
+      // Get signed URLs for photos: thumbnails for the grid, medium for the lightbox
+      const urls = await getSignedUrls(
+        albumPhotos
+          .filter(albumPhoto => albumPhoto.photo)
+          .flatMap(albumPhoto => [
+            getPhotoVariantPath(albumPhoto.photo!, 'thumbnail'),
+            getPhotoVariantPath(albumPhoto.photo!, 'medium')
+          ])
+      )
 
-            return {
-              ...albumPhoto,
-              imageUrl: error ? null : data.signedUrl
-            }
-          } catch (error) {
-            console.error('Error getting signed URL:', error)
-            return { ...albumPhoto, imageUrl: null }
+      setPhotos(albumPhotos.map(albumPhoto => albumPhoto.photo
+        ? {
+            ...albumPhoto,
+            imageUrl: urls.get(getPhotoVariantPath(albumPhoto.photo, 'thumbnail')) || null,
+            largeImageUrl: urls.get(getPhotoVariantPath(albumPhoto.photo, 'medium')) || null
           }
-        })
-      )
-      
-      setPhotos(photosWithUrls)
+        : { ...albumPhoto, imageUrl: null, largeImageUrl: null }
+      ))
     } catch (error) {
       console.error('Error loading shared album:', error)
       setError('Failed to load album')
@@ -157,11 +162,27 @@ export default function SharedAlbumPage() {
     )
   }
 
+  const cover = getAlbumCover(album, photos)
+
   return (
     <>
       <div className="min-h-screen bg-gray-50">
         {/* Header */}
         <div className="bg-white shadow-sm">
+          {cover?.photo && (
+            <div className="relative h-48 sm:h-72 bg-gray-200 overflow-hidden">
+              <SignedImage
+                path={getPhotoVariantPath(cover.photo, 'medium')}
+                src={cover.largeImageUrl}
+                alt={`${album.name} cover`}
+                fill
+                sizes="100vw"
+                className="object-cover"
+                priority
+                {...getPlaceholderProps(cover.photo)}
+              />
+            </div>
+          )}
           <div className="max-w-6xl mx-auto px-4 py-6">
             <div className="text-center">
               <h1 className="text-3xl font-bold text-gray-900 mb-2">{album.name}</h1>
@@ -202,18 +223,23 @@ export default function SharedAlbumPage() {
                   className="bg-white rounded-lg shadow overflow-hidden hover:shadow-lg transition-shadow cursor-pointer"
                   onClick={() => openModal(index)}
                 >
-                  <div className="aspect-square relative">
-                    {albumPhoto.imageUrl ? (
-                      <Image
+                  <div className="aspect-square relative overflow-hidden">
+                    {albumPhoto.imageUrl && albumPhoto.photo ? (
+                      <SignedImage
+                        path={getPhotoVariantPath(albumPhoto.photo, 'thumbnail')}
                         src={albumPhoto.imageUrl}
-                        alt={albumPhoto.photo?.original_filename || 'Photo'}
+                        alt={albumPhoto.photo.original_filename}
                         fill
                         className="object-cover"
+                        {...getPlaceholderProps(albumPhoto.photo)}
                       />
                     ) : (
-                      <div className="w-full h-full bg-gray-200 flex items-center justify-center">
+                      <PhotoPlaceholder placeholder={albumPhoto.photo?.placeholder}>
                         <Images className="w-8 h-8 text-gray-400" />
-                      </div>
+                      </PhotoPlaceholder>
+                    )}
+                    {albumPhoto.photo?.media_type === 'video' && (
+                      <VideoBadge duration={albumPhoto.photo.duration} />
                     )}
                   </div>
                   {albumPhoto.photo?.caption && (
@@ -270,10 +296,19 @@ export default function SharedAlbumPage() {
 
             {/* Image */}
             <div className="w-full h-full flex items-center justify-center">
-              {photos[selectedPhotoIndex]?.imageUrl ? (
+              {photos[selectedPhotoIndex]?.photo?.media_type === 'video' ? (
+                <SignedVideo
+                  path={photos[selectedPhotoIndex].photo!.file_path}
+                  posterPath={getPhotoVariantPath(photos[selectedPhotoIndex].photo!, 'medium')}
+                  poster={photos[selectedPhotoIndex].largeImageUrl}
+                  autoPlay
+                  className="max-w-full max-h-full"
+                />
+              ) : photos[selectedPhotoIndex]?.largeImageUrl && photos[selectedPhotoIndex].photo ? (
                 <div className="relative max-w-full max-h-full">
-                  <Image
-                    src={photos[selectedPhotoIndex].imageUrl!}
+                  <SignedImage
+                    path={getPhotoVariantPath(photos[selectedPhotoIndex].photo!, 'medium')}
+                    src={photos[selectedPhotoIndex].largeImageUrl}
                     alt={photos[selectedPhotoIndex].photo?.original_filename || 'Photo'}
                     width={800}
                     height={600}
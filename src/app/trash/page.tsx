@@ -0,0 +1,152 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useRouter } from 'next/navigation'
+import { createClient } from '@/lib/supabase/client'
+import { User } from '@supabase/supabase-js'
+import Layout from '@/components/Layout'
+import SignedImage from '@/components/SignedImage'
+import {
+  getTrashedPhotos,
+  restorePhoto,
+  getDaysUntilPurge,
+  getPhotoVariantPath,
+  TRASH_RETENTION_DAYS,
+  type PhotoWithProfile
+} from '@/lib/supabase/photos'
+import { Trash2, RotateCcw, Images } from 'lucide-react'
+
+export default function TrashPage() {
+  const [user, setUser] = useState<User | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [photos, setPhotos] = useState<PhotoWithProfile[]>([])
+  const [loadingPhotos, setLoadingPhotos] = useState(false)
+  const [restoringId, setRestoringId] = useState<string | null>(null)
+  const router = useRouter()
+  const supabase = createClient()
+
+  useEffect(() => {
+    const getUser = async () => {
+      const { data: { user } } = await supabase.auth.getUser()
+      if (!user) {
+        router.push('/')
+        return
+      }
+      setUser(user)
+      setLoading(false)
+    }
+    getUser()
+  }, [supabase, router])
+
+  const loadTrash = useCallback(async () => {
+    setLoadingPhotos(true)
+    try {
+      setPhotos(await getTrashedPhotos())
+    } catch (error) {
+      console.error('Error loading trash:', error)
+    } finally {
+      setLoadingPhotos(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (user) {
+      loadTrash()
+    }
+  }, [user, loadTrash])
+
+  const handleRestore = async (photoId: string) => {
+    setRestoringId(photoId)
+    try {
+      await restorePhoto(photoId)
+      setPhotos(prev => prev.filter(photo => photo.id !== photoId))
+    } catch (error) {
+      console.error('Error restoring photo:', error)
+      alert('Failed to restore photo. Please try again.')
+    } finally {
+      setRestoringId(null)
+    }
+  }
+
+  if (loading) {
+    return (
+      <main className="flex min-h-screen flex-col items-center justify-center p-24">
+        <div className="text-center">
+          <h1 className="text-4xl font-bold mb-8">Loading...</h1>
+        </div>
+      </main>
+    )
+  }
+
+  return (
+    <Layout user={user!}>
+      <div className="max-w-7xl mx-auto">
+        {/* Header */}
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900">Trash</h1>
+          <p className="text-gray-600 mt-1">
+            Photos you delete stay here for {TRASH_RETENTION_DAYS} days before they are removed for good
+          </p>
+        </div>
+
+        {loadingPhotos ? (
+          <div className="text-center py-12">
+            <p className="text-gray-500">Loading trash...</p>
+          </div>
+        ) : photos.length === 0 ? (
+          <div className="text-center py-12">
+            <Trash2 className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">Trash is empty</h3>
+            <p className="text-gray-600">Photos you delete will show up here.</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
+            {photos.map((photo) => {
+              const daysLeft = getDaysUntilPurge(photo.deleted_at!)
+
+              return (
+                <div key={photo.id} className="bg-white rounded-lg shadow overflow-hidden">
+                  <div className="aspect-square relative opacity-75">
+                    {photo.imageUrl ? (
+                      <SignedImage
+                        path={getPhotoVariantPath(photo, 'thumbnail')}
+                        src={photo.imageUrl}
+                        alt={photo.original_filename}
+                        fill
+                        className="object-cover"
+                      />
+                    ) : (
+                      <div className="w-full h-full bg-gray-200 flex items-center justify-center">
+                        <Images className="w-8 h-8 text-gray-400" />
+                      </div>
+                    )}
+                  </div>
+                  <div className="p-3">
+                    {photo.caption && (
+                      <p className="text-sm text-gray-700 line-clamp-2 mb-2">{photo.caption}</p>
+                    )}
+                    <div className="flex items-center justify-between">
+                      <p className="text-xs text-gray-500">
+                        {daysLeft === 0
+                          ? 'Removing soon'
+                          : `${daysLeft} day${daysLeft !== 1 ? 's' : ''} left`}
+                      </p>
+                      <button
+                        onClick={() => handleRestore(photo.id)}
+                        disabled={restoringId === photo.id}
+                        className="inline-flex items-center px-3 py-1 text-sm text-blue-600 border border-blue-200 rounded-lg hover:bg-blue-50 disabled:opacity-50 transition-colors"
+                      >
+                        <RotateCcw className="w-4 h-4 mr-1" />
+                        {restoringId === photo.id ? 'Restoring...' : 'Restore'}
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </div>
+    </Layout>
+  )
+}
@@ -1,81 +1,58 @@
 'use client'
 
 import { createClient } from '@/lib/supabase/client'
-import { useEffect, useState } from 'react'
+import { Suspense, useEffect, useRef, useState } from 'react'
 import { User } from '@supabase/supabase-js'
 import Layout from '@/components/Layout'
-import { useRouter } from 'next/navigation'
-import imageCompression from 'browser-image-compression'
+import { useRouter, useSearchParams } from 'next/navigation'
+import UploadQueueList from '@/components/UploadQueueList'
+import DuplicateWarning from '@/components/DuplicateWarning'
+import { useUploadQueue } from '@/hooks/useUploadQueue'
+import { enqueueUploads, findDuplicateUploads } from '@/lib/uploadQueue'
+import { type PhotoHashes } from '@/lib/imageProcessing'
+import { isVideoFile, getVideoSizeError, MAX_VIDEO_SIZE_MB } from '@/lib/videoProcessing'
+import { type PhotoDuplicate } from '@/lib/supabase/photos'
+import { getFamilySettings } from '@/lib/supabase/settings'
+import { getAlbums, createAlbum, type Album } from '@/lib/supabase/albums'
+import {
+  PROCESSING_PROFILES,
+  DEFAULT_PROCESSING_PROFILE,
+  getProcessingProfile,
+  type ProcessingProfileId
+} from '@/lib/processingProfiles'
 
-// Helper function to read EXIF orientation
-const getOrientation = (file: File, callback: (orientation: number) => void) => {
-  const reader = new FileReader()
-  reader.onload = (e) => {
-    const view = new DataView(e.target?.result as ArrayBuffer)
-    if (view.getUint16(0, false) !== 0xFFD8) {
-      callback(1) // Not a JPEG
-      return
-    }
-    
-    const length = view.byteLength
-    let offset = 2
-    
-    while (offset < length) {
-      if (view.getUint16(offset + 2, false) <= 8) {
-        callback(1)
-        return
-      }
-      const marker = view.getUint16(offset, false)
-      offset += 2
-      if (marker === 0xFFE1) {
-        const little = view.getUint16(offset + 8, false) === 0x4949
-        offset += view.getUint16(offset, false)
-        if (view.getUint32(offset + 4, little) !== 0x2A) {
-          callback(1)
-          return
-        }
-        const firstIFDOffset = view.getUint32(offset + 8, little)
-        if (firstIFDOffset < 0x00000008) {
-          callback(1)
-          return
-        }
-        offset += firstIFDOffset
-        const tags = view.getUint16(offset, little)
-        offset += 2
-        for (let i = 0; i < tags; i++) {
-          if (view.getUint16(offset + (i * 12), little) === 0x0112) {
-            callback(view.getUint16(offset + (i * 12) + 8, little))
-            return
-          }
-        }
-      } else if ((marker & 0xFF00) !== 0xFF00) {
-        break
-      } else {
-        offset += view.getUint16(offset, false)
-      }
-    }
-    callback(1) // Default orientation
-  }
-  reader.readAsArrayBuffer(file)
-}
+// Album picker value for making a new album with this batch
+const NEW_ALBUM = 'new'
 
-// Helper function to get rotated dimensions
-const getRotatedDimensions = (width: number, height: number, orientation: number) => {
-  if (orientation >= 5 && orientation <= 8) {
-    return { width: height, height: width }
-  }
-  return { width, height }
-}
+const loadingScreen = <div className="flex justify-center items-center min-h-screen">Loading...</div>
 
-export default function UploadPage() {
+function UploadForm() {
   const [user, setUser] = useState<User | null>(null)
   const [loading, setLoading] = useState(true)
-  const [uploading, setUploading] = useState(false)
+  const [queueing, setQueueing] = useState(false)
   const [selectedFiles, setSelectedFiles] = useState<FileList | null>(null)
   const [caption, setCaption] = useState('')
-  const [uploadProgress, setUploadProgress] = useState<string>('')
+  const [fileCaptions, setFileCaptions] = useState<string[]>([])
+  const [includeLocation, setIncludeLocation] = useState(false)
+  const [keepOriginals, setKeepOriginals] = useState(false)
+  const [processingProfile, setProcessingProfile] = useState<ProcessingProfileId>(DEFAULT_PROCESSING_PROFILE)
+  const searchParams = useSearchParams()
+  const [albums, setAlbums] = useState<Album[]>([])
+  // '' for no album, an album ID, or NEW_ALBUM
+  const [albumTarget, setAlbumTarget] = useState(searchParams.get('album') || '')
+  const [newAlbumName, setNewAlbumName] = useState('')
+  const [fileHashes, setFileHashes] = useState<PhotoHashes[] | null>(null)
+  const [duplicates, setDuplicates] = useState<Map<number, PhotoDuplicate>>(new Map())
+  const [skippedFiles, setSkippedFiles] = useState<Set<number>>(new Set())
+  const [checkingDuplicates, setCheckingDuplicates] = useState(false)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  // Ignores a duplicate check that finishes after a newer selection
+  const selectionRef = useRef<FileList | null>(null)
   const supabase = createClient()
   const router = useRouter()
+  const uploads = useUploadQueue(user?.id)
+  const allUploaded = uploads.length > 0 && uploads.every(upload => upload.status === 'done')
+  const targetAlbumId = albumTarget === NEW_ALBUM ? null : albumTarget
 
   useEffect(() => {
     const getUser = async () => {
@@ -85,189 +62,125 @@ export default function UploadPage() {
       
       if (!user) {
         router.push('/')
+        return
       }
+
+      const [settings, existingAlbums] = await Promise.all([
+        getFamilySettings(),
+        getAlbums().catch((error) => {
+          console.error('Error loading albums:', error)
+          return []
+        })
+      ])
+      setProcessingProfile(settings.default_processing_profile)
+      setAlbums(existingAlbums)
     }
     getUser()
   }, [supabase, router])
 
+  const checkForDuplicates = async (files: FileList) => {
+    setCheckingDuplicates(true)
+    try {
+      const { hashes, duplicates: found } = await findDuplicateUploads(Array.from(files))
+      if (selectionRef.current !== files) return
+
+      setFileHashes(hashes)
+      setDuplicates(found)
+      // Duplicates are skipped unless someone chooses to upload them anyway
+      setSkippedFiles(new Set(found.keys()))
+    } catch (error) {
+      // Not being able to check shouldn't stop an upload
+      console.error('Error checking for duplicate photos:', error)
+    } finally {
+      if (selectionRef.current === files) {
+        setCheckingDuplicates(false)
+      }
+    }
+  }
+
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
-    setSelectedFiles(event.target.files)
-    setUploadProgress('')
+    const files = event.target.files
+    selectionRef.current = files
+    setSelectedFiles(files)
+    setFileCaptions(Array.from(files || []).map(() => ''))
+    setFileHashes(null)
+    setDuplicates(new Map())
+    setSkippedFiles(new Set())
+
+    if (files && files.length > 0) {
+      checkForDuplicates(files)
+    } else {
+      setCheckingDuplicates(false)
+    }
   }
 
-  const correctImageOrientation = async (file: File): Promise<File> => {
-    return new Promise((resolve) => {
-      const canvas = document.createElement('canvas')
-      const ctx = canvas.getContext('2d')!
-      const img = new Image()
-      
-      img.onload = () => {
-        // Get EXIF orientation
-        getOrientation(file, (orientation) => {
-          console.log('Detected orientation:', orientation)
-          const { width, height } = getRotatedDimensions(img.width, img.height, orientation)
-          
-          canvas.width = width
-          canvas.height = height
-          
-          // Apply rotation based on orientation
-          switch (orientation) {
-            case 2:
-              ctx.transform(-1, 0, 0, 1, width, 0)
-              break
-            case 3:
-              ctx.transform(-1, 0, 0, -1, width, height)
-              break
-            case 4:
-              ctx.transform(1, 0, 0, -1, 0, height)
-              break
-            case 5:
-              ctx.transform(0, 1, 1, 0, 0, 0)
-              break
-            case 6:
-              ctx.transform(0, 1, -1, 0, height, 0)
-              break
-            case 7:
-              ctx.transform(0, -1, -1, 0, height, width)
-              break
-            case 8:
-              ctx.transform(0, -1, 1, 0, 0, width)
-              break
-            default:
-              // No rotation needed
-              break
-          }
-          
-          ctx.drawImage(img, 0, 0)
-          
-          canvas.toBlob((blob) => {
-            if (blob) {
-              const correctedFile = new File([blob], file.name, {
-                type: 'image/jpeg',
-                lastModified: Date.now()
-              })
-              resolve(correctedFile)
-            } else {
-              resolve(file) // Fallback to original
-            }
-          }, 'image/jpeg', 0.9)
-        })
+  const setFileSkipped = (index: number, skipped: boolean) => {
+    setSkippedFiles(prev => {
+      const next = new Set(prev)
+      if (skipped) {
+        next.add(index)
+      } else {
+        next.delete(index)
       }
-      
-      img.src = URL.createObjectURL(file)
+      return next
     })
   }
 
-  const compressImage = async (file: File): Promise<File> => {
-    try {
-      // First, let's correct the orientation manually
-      const correctedFile = await correctImageOrientation(file)
-      
-      // Then compress the corrected image
-      const options = {
-        maxSizeMB: 1,
-        maxWidthOrHeight: 1920,
-        useWebWorker: true,
-        fileType: 'image/jpeg' as const,
-        quality: 0.8,
-        // Don't preserve EXIF since we've already corrected orientation
-        preserveExif: false
-      }
-
-      const compressedFile = await imageCompression(correctedFile, options)
-      console.log(`Processed ${file.name}: ${(file.size / 1024 / 1024).toFixed(2)}MB → ${(compressedFile.size / 1024 / 1024).toFixed(2)}MB`)
-      return compressedFile
-    } catch (error) {
-      console.error('Error processing image:', error)
-      throw error
-    }
+  const updateFileCaption = (index: number, value: string) => {
+    setFileCaptions(prev => prev.map((existing, i) => i === index ? value : existing))
   }
 
-  const uploadPhotos = async () => {
+  const queueUploads = async () => {
     if (!selectedFiles || !user) return
 
-    setUploading(true)
-    setUploadProgress('Starting upload...')
-
+    setQueueing(true)
     try {
-      const totalFiles = selectedFiles.length
-
-      for (let i = 0; i < totalFiles; i++) {
-        const file = selectedFiles[i]
-        setUploadProgress(`Processing ${i + 1}/${totalFiles}: ${file.name}`)
-
-        // Compress the image
-        setUploadProgress(`Compressing ${i + 1}/${totalFiles}: ${file.name}`)
-        const compressedFile = await compressImage(file)
-
-        // Generate unique filename
-        const fileExt = 'jpg'
-        const fileName = `${Date.now()}-${Math.random().toString(36).substring(7)}.${fileExt}`
-        const filePath = `${user.id}/${fileName}`
+      const newUploads = Array.from(selectedFiles)
+        .map((file, index) => ({
+          file,
+          // A photo's own caption wins over the one shared by the batch
+          caption: fileCaptions[index]?.trim() || caption.trim() || null,
+          hashes: fileHashes?.[index]
+        }))
+        .filter((_, index) => !skippedFiles.has(index))
 
-        // Upload compressed file to Supabase Storage
-        setUploadProgress(`Uploading ${i + 1}/${totalFiles}: ${file.name}`)
-        console.log('Attempting to upload to path:', filePath)
-        console.log('File size:', compressedFile.size)
-        console.log('User ID:', user.id)
-
-        const { data: uploadData, error: uploadError } = await supabase.storage
-          .from('family-photos')
-          .upload(filePath, compressedFile)
-
-        if (uploadError) {
-          console.error('Storage upload error:', uploadError)
-          throw new Error(`Storage upload failed: ${uploadError.message}`)
-        }
-
-        console.log('Upload successful:', uploadData)
-
-        // Save photo metadata to database
-        setUploadProgress(`Saving ${i + 1}/${totalFiles}: ${file.name}`)
-        
-        const photoData = {
-          filename: fileName,
-          original_filename: file.name,
-          caption: caption || null,
-          file_path: filePath,
-          file_size: compressedFile.size,
-          uploaded_by: user.id
-        }
-        
-        console.log('Inserting photo data:', photoData)
-
-        const { data: dbData, error: dbError } = await supabase
-          .from('photos')
-          .insert(photoData)
+      let albumId = albumTarget || null
+      if (albumTarget === NEW_ALBUM) {
+        const album = await createAlbum({ name: newAlbumName })
+        setAlbums(prev => [album, ...prev])
+        // Later batches go into the same album
+        setAlbumTarget(album.id)
+        setNewAlbumName('')
+        albumId = album.id
+      }
 
-        if (dbError) {
-          console.error('Database insert error:', dbError)
-          throw new Error(`Database insert failed: ${dbError.message}`)
-        }
+      await enqueueUploads(user.id, newUploads, {
+        includeLocation,
+        keepOriginal: keepOriginals,
+        processingProfile,
+        albumId
+      })
 
-        console.log('Database insert successful:', dbData)
+      selectionRef.current = null
+      setSelectedFiles(null)
+      setCaption('')
+      setFileCaptions([])
+      setFileHashes(null)
+      setDuplicates(new Map())
+      setSkippedFiles(new Set())
+      if (fileInputRef.current) {
+        fileInputRef.current.value = ''
       }
-
-      setUploadProgress('Upload complete!')
-      setTimeout(() => {
-        setSelectedFiles(null)
-        setCaption('')
-        setUploadProgress('')
-        router.push('/')
-      }, 1000)
-      
     } catch (error) {
-      console.error('Detailed error:', error)
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred'
-      setUploadProgress(`Error: ${errorMessage}`)
-      setTimeout(() => setUploadProgress(''), 5000)
+      console.error('Error queueing uploads:', error)
+      alert('Failed to add photos to the upload queue. Please try again.')
     } finally {
-      setUploading(false)
+      setQueueing(false)
     }
   }
 
   if (loading) {
-    return <div className="flex justify-center items-center min-h-screen">Loading...</div>
+    return loadingScreen
   }
 
   if (!user) {
@@ -282,78 +195,212 @@ export default function UploadPage() {
         <div className="bg-white shadow rounded-lg p-6">
           <div className="mb-6">
             <label className="block text-sm font-medium text-gray-700 mb-2">
-              Select Photos
+              Select Photos and Videos
             </label>
             <input
+              ref={fileInputRef}
               type="file"
               multiple
-              accept="image/*"
+              accept="image/*,.heic,.heif,video/*"
               onChange={handleFileSelect}
-              disabled={uploading}
+              disabled={queueing}
               className="block w-full text-sm text-gray-500 file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100 disabled:opacity-50"
             />
             <p className="mt-1 text-xs text-gray-500">
-              Photos will be automatically rotated and compressed to under 1MB for faster sharing
+              Photos will be automatically rotated and compressed for faster sharing. iPhone HEIC photos are converted too.
+              Videos are uploaded as they are, up to {MAX_VIDEO_SIZE_MB}MB each.
             </p>
           </div>
 
           <div className="mb-6">
             <label className="block text-sm font-medium text-gray-700 mb-2">
-              Caption (optional)
+              Caption for all photos (optional)
             </label>
             <textarea
               value={caption}
               onChange={(e) => setCaption(e.target.value)}
-              disabled={uploading}
+              disabled={queueing}
               rows={3}
               className="block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 disabled:opacity-50"
               placeholder="Add a caption for your photos..."
             />
+            <p className="mt-1 text-xs text-gray-500">
+              Used for any photo below that doesn&apos;t have its own caption
+            </p>
+          </div>
+
+          <div className="mb-6">
+            <label className="flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={includeLocation}
+                onChange={(e) => setIncludeLocation(e.target.checked)}
+                disabled={queueing}
+                className="mr-2 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              Save where photos were taken (GPS location)
+            </label>
+            <p className="mt-1 ml-6 text-xs text-gray-500">
+              The date taken and camera details are always kept; location is only saved if you tick this
+            </p>
+          </div>
+
+          <div className="mb-6">
+            <label htmlFor="albumTarget" className="block text-sm font-medium text-gray-700 mb-2">
+              Add to album (optional)
+            </label>
+            <select
+              id="albumTarget"
+              value={albumTarget}
+              onChange={(e) => setAlbumTarget(e.target.value)}
+              disabled={queueing}
+              className="block w-full sm:w-80 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-50"
+            >
+              <option value="">No album</option>
+              {albums.map((album) => (
+                <option key={album.id} value={album.id}>{album.name}</option>
+              ))}
+              <option value={NEW_ALBUM}>New album...</option>
+            </select>
+            {albumTarget === NEW_ALBUM && (
+              <input
+                type="text"
+                value={newAlbumName}
+                onChange={(e) => setNewAlbumName(e.target.value)}
+                disabled={queueing}
+                maxLength={100}
+                className="block w-full sm:w-80 mt-2 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-50"
+                placeholder="Album name..."
+              />
+            )}
+          </div>
+
+          <div className="mb-6">
+            <label htmlFor="processingProfile" className="block text-sm font-medium text-gray-700 mb-2">
+              Photo quality
+            </label>
+            <select
+              id="processingProfile"
+              value={processingProfile}
+              onChange={(e) => setProcessingProfile(e.target.value as ProcessingProfileId)}
+              disabled={queueing}
+              className="block w-full sm:w-80 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-50"
+            >
+              {Object.values(PROCESSING_PROFILES).map((profile) => (
+                <option key={profile.id} value={profile.id}>{profile.name}</option>
+              ))}
+            </select>
+            <p className="mt-1 text-xs text-gray-500">
+              {getProcessingProfile(processingProfile).description}
+            </p>
+          </div>
+
+          <div className="mb-6">
+            <label className="flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={keepOriginals}
+                onChange={(e) => setKeepOriginals(e.target.checked)}
+                disabled={queueing}
+                className="mr-2 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              Also keep the original files
+            </label>
+            <p className="mt-1 ml-6 text-xs text-gray-500">
+              Stores the full-resolution file as well, so it can be downloaded for printing. Uses more storage.
+            </p>
           </div>
 
           {selectedFiles && (
             <div className="mb-6">
               <p className="text-sm text-gray-600 mb-2">
                 {selectedFiles.length} file(s) selected
+                {checkingDuplicates && ' · Checking for duplicates...'}
+                {duplicates.size > 0 && (
+                  <span className="text-amber-700">
+                    {' '}· {duplicates.size} already uploaded{skippedFiles.size > 0 && `, ${skippedFiles.size} will be skipped`}
+                  </span>
+                )}
               </p>
-              <div className="mt-2 space-y-1 max-h-32 overflow-y-auto">
+              <div className="mt-2 space-y-3 max-h-80 overflow-y-auto">
                 {Array.from(selectedFiles).map((file, index) => (
-                  <div key={index} className="flex justify-between text-xs text-gray-500">
-                    <span className="truncate mr-2">{file.name}</span>
-                    <span className="whitespace-nowrap">
-                      {(file.size / 1024 / 1024).toFixed(2)} MB
-                    </span>
+                  <div key={index}>
+                    <div className="flex justify-between text-xs text-gray-500 mb-1">
+                      <span className="truncate mr-2">{file.name}</span>
+                      <span className="whitespace-nowrap">
+                        {(file.size / 1024 / 1024).toFixed(2)} MB
+                      </span>
+                    </div>
+                    {isVideoFile(file) && getVideoSizeError(file) && (
+                      <p className="text-xs text-red-600 mb-1">{getVideoSizeError(file)}</p>
+                    )}
+                    <input
+                      type="text"
+                      value={fileCaptions[index] || ''}
+                      onChange={(e) => updateFileCaption(index, e.target.value)}
+                      disabled={queueing}
+                      maxLength={1000}
+                      className="block w-full text-sm px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+                      placeholder={caption.trim() || 'Caption for this photo...'}
+                    />
+                    {duplicates.has(index) && (
+                      <DuplicateWarning
+                        duplicate={duplicates.get(index)!}
+                        skipped={skippedFiles.has(index)}
+                        onSkippedChange={(skipped) => setFileSkipped(index, skipped)}
+                        disabled={queueing}
+                      />
+                    )}
                   </div>
                 ))}
               </div>
             </div>
           )}
 
-          {uploadProgress && (
-            <div className="mb-6 p-3 bg-blue-50 rounded-md">
-              <p className="text-sm text-blue-700">{uploadProgress}</p>
-            </div>
-          )}
-
           <div className="flex space-x-4">
             <button
-              onClick={uploadPhotos}
-              disabled={!selectedFiles || uploading}
+              onClick={queueUploads}
+              disabled={
+                !selectedFiles ||
+                queueing ||
+                checkingDuplicates ||
+                skippedFiles.size === selectedFiles.length ||
+                (albumTarget === NEW_ALBUM && !newAlbumName.trim())
+              }
               className="flex-1 bg-blue-500 hover:bg-blue-700 disabled:bg-gray-300 text-white font-bold py-2 px-4 rounded transition-colors"
             >
-              {uploading ? 'Processing...' : 'Upload & Compress Photos'}
+              {queueing ? 'Adding...' : checkingDuplicates ? 'Checking for duplicates...' : 'Upload & Compress Photos'}
             </button>
             
             <button
-              onClick={() => router.push('/')}
-              disabled={uploading}
+              onClick={() => router.push(targetAlbumId ? `/albums/${targetAlbumId}` : '/')}
+              disabled={queueing}
               className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 disabled:opacity-50 transition-colors"
             >
-              Cancel
+              {allUploaded ? (targetAlbumId ? 'View Album' : 'View Photos') : 'Cancel'}
             </button>
           </div>
         </div>
+
+        {uploads.length > 0 && (
+          <div className="bg-white shadow rounded-lg p-6 mt-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-1">Uploads</h2>
+            <p className="text-xs text-gray-500 mb-4">
+              Uploads carry on if you leave this page, and pick up where they left off if it&apos;s closed or reloaded
+            </p>
+            <UploadQueueList uploads={uploads} />
+          </div>
+        )}
       </div>
     </Layout>
   )
-}
\ No newline at end of file
+}
+
+export default function UploadPage() {
+  // useSearchParams needs a Suspense boundary to prerender
+  return (
+    <Suspense fallback={loadingScreen}>
+      <UploadForm />
+    </Suspense>
+  )
+}
@@ -0,0 +1,252 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { X, ImagePlus, Loader2 } from 'lucide-react'
+import SignedImage from '@/components/SignedImage'
+import PhotoPlaceholder from '@/components/PhotoPlaceholder'
+import PhotoFilterBar from '@/components/PhotoFilterBar'
+import SelectionCheck from '@/components/SelectionCheck'
+import VideoBadge from '@/components/VideoBadge'
+import { useInfiniteScroll } from '@/hooks/useInfiniteScroll'
+import { addPhotosToAlbum } from '@/lib/supabase/albums'
+import { getAllProfiles, type Profile } from '@/lib/supabase/profiles'
+import { EMPTY_PHOTO_FILTERS, type PhotoFilters } from '@/lib/photoFilters'
+import {
+  getPhotosPage,
+  getPhotoVariantPath,
+  getPlaceholderProps,
+  type PhotoCursor,
+  type PhotoWithProfile
+} from '@/lib/supabase/photos'
+
+interface AddPhotosToAlbumModalProps {
+  isOpen: boolean
+  onClose: () => void
+  albumId: string
+  existingPhotoIds: string[] // photos already in the album, shown but not selectable
+  onSuccess?: () => void
+}
+
+/**
+ * Pick photos from the library to add to an album. Pages through the
+ * gallery feed with the same filters as the home page.
+ */
+export default function AddPhotosToAlbumModal({
+  isOpen,
+  onClose,
+  albumId,
+  existingPhotoIds,
+  onSuccess
+}: AddPhotosToAlbumModalProps) {
+  const [photos, setPhotos] = useState<PhotoWithProfile[]>([])
+  const [nextCursor, setNextCursor] = useState<PhotoCursor | null>(null)
+  const [loadingPhotos, setLoadingPhotos] = useState(false)
+  const [filters, setFilters] = useState<PhotoFilters>(EMPTY_PHOTO_FILTERS)
+  const [uploaders, setUploaders] = useState<Profile[]>([])
+  const [selectedPhotoIds, setSelectedPhotoIds] = useState<Set<string>>(new Set())
+  const [isAdding, setIsAdding] = useState(false)
+  const [error, setError] = useState('')
+
+  const inAlbum = new Set(existingPhotoIds)
+
+  const loadPhotos = useCallback(async (cursor: PhotoCursor | null) => {
+    setLoadingPhotos(true)
+    try {
+      const page = await getPhotosPage({ cursor, filters })
+      setPhotos(prev => {
+        if (!cursor) return page.photos
+        const seen = new Set(prev.map(photo => photo.id))
+        return [...prev, ...page.photos.filter(photo => !seen.has(photo.id))]
+      })
+      setNextCursor(page.nextCursor)
+    } catch (error) {
+      console.error('Error loading photos:', error)
+      setError('Failed to load photos')
+    } finally {
+      setLoadingPhotos(false)
+    }
+  }, [filters])
+
+  useEffect(() => {
+    if (isOpen) {
+      loadPhotos(null)
+    }
+  }, [isOpen, loadPhotos])
+
+  useEffect(() => {
+    if (isOpen) {
+      getAllProfiles().then(setUploaders).catch(error => {
+        console.error('Error loading uploaders:', error)
+      })
+    }
+  }, [isOpen])
+
+  const loadMorePhotos = useCallback(() => {
+    if (nextCursor) {
+      loadPhotos(nextCursor)
+    }
+  }, [nextCursor, loadPhotos])
+
+  const loadMoreRef = useInfiniteScroll({
+    onLoadMore: loadMorePhotos,
+    hasMore: nextCursor !== null,
+    loading: loadingPhotos
+  })
+
+  const togglePhotoSelection = (photoId: string) => {
+    const newSelection = new Set(selectedPhotoIds)
+    if (newSelection.has(photoId)) {
+      newSelection.delete(photoId)
+    } else {
+      newSelection.add(photoId)
+    }
+    setSelectedPhotoIds(newSelection)
+  }
+
+  const handleAdd = async () => {
+    if (selectedPhotoIds.size === 0) return
+
+    setIsAdding(true)
+    setError('')
+
+    try {
+      // Keep the order they appear in the library
+      await addPhotosToAlbum(albumId, photos.map(photo => photo.id).filter(id => selectedPhotoIds.has(id)))
+      setSelectedPhotoIds(new Set())
+      onClose()
+
+      if (onSuccess) {
+        onSuccess()
+      }
+    } catch (error) {
+      console.error('Error adding photos to album:', error)
+      setError(error instanceof Error ? error.message : 'Failed to add photos')
+    } finally {
+      setIsAdding(false)
+    }
+  }
+
+  const handleClose = () => {
+    if (!isAdding) {
+      setSelectedPhotoIds(new Set())
+      setError('')
+      onClose()
+    }
+  }
+
+  if (!isOpen) return null
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-4xl w-full mx-4 max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b">
+          <div className="flex items-center space-x-2">
+            <ImagePlus className="w-6 h-6 text-blue-600" />
+            <h2 className="text-lg font-semibold text-gray-900">Add Photos from Library</h2>
+          </div>
+          <button
+            onClick={handleClose}
+            disabled={isAdding}
+            className="text-gray-400 hover:text-gray-600 disabled:opacity-50"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        {/* Body */}
+        <div className="p-6 overflow-y-auto flex-1">
+          {error && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md">
+              <p className="text-sm text-red-600">{error}</p>
+            </div>
+          )}
+
+          <PhotoFilterBar filters={filters} uploaders={uploaders} onChange={setFilters} />
+
+          {photos.length === 0 && !loadingPhotos ? (
+            <p className="text-center text-gray-500 py-12">No photos match these filters</p>
+          ) : (
+            <div className="grid grid-cols-3 sm:grid-cols-4 md:grid-cols-5 gap-2">
+              {photos.map((photo) => {
+                const alreadyAdded = inAlbum.has(photo.id)
+                const isSelected = selectedPhotoIds.has(photo.id)
+
+                return (
+                  <button
+                    key={photo.id}
+                    type="button"
+                    onClick={() => togglePhotoSelection(photo.id)}
+                    disabled={alreadyAdded || isAdding}
+                    className={`aspect-square relative overflow-hidden rounded-md transition-all duration-200 ${
+                      alreadyAdded
+                        ? 'opacity-40 cursor-not-allowed'
+                        : isSelected ? 'ring-4 ring-blue-500 opacity-80' : 'hover:ring-2 hover:ring-gray-300'
+                    }`}
+                  >
+                    {!alreadyAdded && <SelectionCheck selected={isSelected} />}
+                    {photo.imageUrl ? (
+                      <SignedImage
+                        path={getPhotoVariantPath(photo, 'thumbnail')}
+                        src={photo.imageUrl}
+                        alt={photo.original_filename}
+                        fill
+                        sizes="(max-width: 640px) 33vw, 20vw"
+                        className="object-cover"
+                        draggable={false}
+                        {...getPlaceholderProps(photo)}
+                      />
+                    ) : (
+                      <PhotoPlaceholder placeholder={photo.placeholder}>
+                        <p className="text-gray-500 text-xs">Loading...</p>
+                      </PhotoPlaceholder>
+                    )}
+                    {photo.media_type === 'video' && <VideoBadge duration={photo.duration} />}
+                    {alreadyAdded && (
+                      <span className="absolute bottom-2 left-2 px-1.5 py-0.5 text-xs font-medium text-white bg-black/60 rounded">
+                        In album
+                      </span>
+                    )}
+                  </button>
+                )
+              })}
+            </div>
+          )}
+
+          <div ref={loadMoreRef} className="h-1" />
+          {loadingPhotos && (
+            <div className="flex justify-center py-4">
+              <Loader2 className="w-5 h-5 text-gray-400 animate-spin" />
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-between p-6 border-t">
+          <p className="text-sm text-gray-600">
+            {selectedPhotoIds.size} photo{selectedPhotoIds.size !== 1 ? 's' : ''} selected
+          </p>
+          <div className="flex space-x-3">
+            <button
+              type="button"
+              onClick={handleClose}
+              disabled={isAdding}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 border border-gray-300 rounded-md hover:bg-gray-200 focus:outline-none focus:ring-2 focus:ring-gray-500 disabled:opacity-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handleAdd}
+              disabled={isAdding || selectedPhotoIds.size === 0}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 flex items-center space-x-2"
+            >
+              {isAdding && <Loader2 className="w-4 h-4 animate-spin" />}
+              <span>{isAdding ? 'Adding...' : 'Add to Album'}</span>
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
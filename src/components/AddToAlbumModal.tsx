@@ -0,0 +1,242 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { X, FolderInput, Images, Search, Loader2, CheckCircle } from 'lucide-react'
+import SignedImage from '@/components/SignedImage'
+import { getAlbums, addPhotosToAlbum, type Album } from '@/lib/supabase/albums'
+import { getSignedUrls } from '@/lib/supabase/photoUrls'
+import { type Photo } from '@/lib/supabase/photos'
+
+interface AddToAlbumModalProps {
+  isOpen: boolean
+  onClose: () => void
+  selectedPhotos: Photo[]
+  onSuccess?: (albumId: string) => void
+}
+
+interface AddResult {
+  album: Album
+  addedCount: number
+  alreadyInAlbum: Photo[]
+}
+
+/**
+ * Pick an existing album and add the selected photos to the end of it.
+ * Afterwards it says which photos were already there.
+ */
+export default function AddToAlbumModal({
+  isOpen,
+  onClose,
+  selectedPhotos,
+  onSuccess
+}: AddToAlbumModalProps) {
+  const [albums, setAlbums] = useState<Album[]>([])
+  const [coverUrls, setCoverUrls] = useState<Map<string, string | null>>(new Map())
+  const [loadingAlbums, setLoadingAlbums] = useState(false)
+  const [query, setQuery] = useState('')
+  const [addingToId, setAddingToId] = useState<string | null>(null)
+  const [result, setResult] = useState<AddResult | null>(null)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    if (!isOpen) return
+
+    const loadAlbums = async () => {
+      setLoadingAlbums(true)
+      try {
+        const albumsData = await getAlbums()
+
+        // Sign every cover together before showing the list
+        const coverPaths = albumsData
+          .map(album => album.cover_path)
+          .filter((path): path is string => Boolean(path))
+        setCoverUrls(await getSignedUrls(coverPaths))
+        setAlbums(albumsData)
+      } catch (error) {
+        console.error('Error loading albums:', error)
+        setError('Failed to load albums')
+      } finally {
+        setLoadingAlbums(false)
+      }
+    }
+    loadAlbums()
+  }, [isOpen])
+
+  const matchingAlbums = albums.filter(album =>
+    album.name.toLowerCase().includes(query.trim().toLowerCase())
+  )
+
+  const handleAdd = async (album: Album) => {
+    setAddingToId(album.id)
+    setError('')
+
+    try {
+      const positions = await addPhotosToAlbum(album.id, selectedPhotos.map(photo => photo.id))
+      const added = new Set(positions.filter(position => position.added).map(position => position.photo_id))
+
+      setResult({
+        album,
+        addedCount: added.size,
+        alreadyInAlbum: selectedPhotos.filter(photo => !added.has(photo.id))
+      })
+
+      if (onSuccess) {
+        onSuccess(album.id)
+      }
+    } catch (error) {
+      console.error('Error adding photos to album:', error)
+      setError(error instanceof Error ? error.message : 'Failed to add photos to album')
+    } finally {
+      setAddingToId(null)
+    }
+  }
+
+  const handleClose = () => {
+    if (!addingToId) {
+      setQuery('')
+      setResult(null)
+      setError('')
+      onClose()
+    }
+  }
+
+  if (!isOpen) return null
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-md w-full mx-4 max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b">
+          <div className="flex items-center space-x-2">
+            <FolderInput className="w-6 h-6 text-blue-600" />
+            <h2 className="text-lg font-semibold text-gray-900">Add to Album</h2>
+          </div>
+          <button
+            onClick={handleClose}
+            disabled={addingToId !== null}
+            className="text-gray-400 hover:text-gray-600 disabled:opacity-50"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        {/* Body */}
+        {result ? (
+          <div className="p-6">
+            <div className="flex items-start mb-4">
+              <CheckCircle className="w-5 h-5 text-green-500 mr-2 mt-0.5 flex-shrink-0" />
+              <p className="text-sm text-gray-700">
+                {result.addedCount > 0
+                  ? `Added ${result.addedCount} photo${result.addedCount !== 1 ? 's' : ''} to "${result.album.name}".`
+                  : `Nothing new to add to "${result.album.name}".`}
+              </p>
+            </div>
+
+            {result.alreadyInAlbum.length > 0 && (
+              <div className="mb-4 p-3 bg-amber-50 border border-amber-200 rounded-md">
+                <p className="text-sm text-amber-800 mb-1">
+                  {result.alreadyInAlbum.length} {result.alreadyInAlbum.length !== 1 ? 'were' : 'was'} already in the album:
+                </p>
+                <ul className="text-xs text-amber-700 space-y-0.5 max-h-32 overflow-y-auto">
+                  {result.alreadyInAlbum.map(photo => (
+                    <li key={photo.id} className="truncate">{photo.original_filename}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <div className="flex justify-end space-x-3">
+              <Link
+                href={`/albums/${result.album.id}`}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 border border-gray-300 rounded-md hover:bg-gray-200 focus:outline-none focus:ring-2 focus:ring-gray-500"
+              >
+                View Album
+              </Link>
+              <button
+                type="button"
+                onClick={handleClose}
+                className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                Done
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className="p-6 flex flex-col flex-1 min-h-0">
+            {error && (
+              <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md">
+                <p className="text-sm text-red-600">{error}</p>
+              </div>
+            )}
+
+            <p className="text-sm text-gray-600 mb-3">
+              {selectedPhotos.length} photo{selectedPhotos.length !== 1 ? 's' : ''} will be added to the end of the album you pick
+            </p>
+
+            <div className="relative mb-4">
+              <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+              <input
+                type="text"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="Search albums..."
+                autoFocus
+              />
+            </div>
+
+            <div className="overflow-y-auto -mx-2">
+              {loadingAlbums ? (
+                <div className="flex justify-center py-8">
+                  <Loader2 className="w-5 h-5 text-gray-400 animate-spin" />
+                </div>
+              ) : matchingAlbums.length === 0 ? (
+                <p className="text-center text-sm text-gray-500 py-8">
+                  {albums.length === 0 ? 'There are no albums yet' : 'No albums match your search'}
+                </p>
+              ) : (
+                <ul>
+                  {matchingAlbums.map(album => (
+                    <li key={album.id}>
+                      <button
+                        type="button"
+                        onClick={() => handleAdd(album)}
+                        disabled={addingToId !== null}
+                        className="w-full flex items-center px-2 py-2 rounded-md text-left hover:bg-gray-50 disabled:opacity-50 transition-colors"
+                      >
+                        <div className="w-12 h-12 relative flex-shrink-0 rounded overflow-hidden bg-gray-100 flex items-center justify-center">
+                          {album.cover_path ? (
+                            <SignedImage
+                              path={album.cover_path}
+                              src={coverUrls.get(album.cover_path)}
+                              alt={album.name}
+                              fill
+                              sizes="48px"
+                              className="object-cover"
+                            />
+                          ) : (
+                            <Images className="w-5 h-5 text-gray-400" />
+                          )}
+                        </div>
+                        <div className="ml-3 min-w-0 flex-1">
+                          <p className="text-sm font-medium text-gray-900 truncate">{album.name}</p>
+                          <p className="text-xs text-gray-500">
+                            {album.photo_count} photo{album.photo_count !== 1 ? 's' : ''}
+                          </p>
+                        </div>
+                        {addingToId === album.id && (
+                          <Loader2 className="w-4 h-4 text-blue-600 animate-spin ml-2" />
+                        )}
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
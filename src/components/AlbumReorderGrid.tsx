@@ -0,0 +1,173 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { GripVertical, Images } from 'lucide-react'
+import SignedImage from '@/components/SignedImage'
+import PhotoPlaceholder from '@/components/PhotoPlaceholder'
+import VideoBadge from '@/components/VideoBadge'
+import { type AlbumPhoto } from '@/lib/supabase/albums'
+import { getPhotoVariantPath, getPlaceholderProps } from '@/lib/supabase/photos'
+
+type ReorderablePhoto = AlbumPhoto & { imageUrl?: string | null }
+
+interface AlbumReorderGridProps<T extends ReorderablePhoto> {
+  photos: T[]
+  onReorder: (photos: T[]) => void
+  disabled?: boolean
+}
+
+// How close to the top or bottom of the window a drag starts scrolling
+const SCROLL_EDGE = 60
+const SCROLL_STEP = 20
+
+function moveItem<T>(items: T[], from: number, to: number): T[] {
+  const next = [...items]
+  const [item] = next.splice(from, 1)
+  next.splice(to, 0, item)
+  return next
+}
+
+/**
+ * The album's photos as a grid that can be put in order. Each tile has a
+ * handle that can be dragged with a mouse or finger, or focused and moved
+ * with the arrow keys. Scrolling still works on touch screens because only
+ * the handle captures the pointer.
+ */
+export default function AlbumReorderGrid<T extends ReorderablePhoto>({
+  photos,
+  onReorder,
+  disabled = false
+}: AlbumReorderGridProps<T>) {
+  // The order shown while a drag is in progress; null the rest of the time
+  const [draft, setDraft] = useState<T[] | null>(null)
+  const [draggingId, setDraggingId] = useState<string | null>(null)
+  // Handle to focus again after a keyboard move re-renders the grid
+  const [focusId, setFocusId] = useState<string | null>(null)
+  const handleRefs = useRef(new Map<string, HTMLButtonElement>())
+
+  const shown = draft || photos
+
+  useEffect(() => {
+    if (focusId) {
+      handleRefs.current.get(focusId)?.focus()
+    }
+  }, [focusId, photos])
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLButtonElement>, id: string) => {
+    if (disabled || event.button !== 0) return
+    event.preventDefault()
+    event.currentTarget.setPointerCapture(event.pointerId)
+    setFocusId(null)
+    setDraggingId(id)
+    setDraft(photos)
+  }
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLButtonElement>) => {
+    if (!draggingId || !draft) return
+
+    if (event.clientY < SCROLL_EDGE) {
+      window.scrollBy(0, -SCROLL_STEP)
+    } else if (event.clientY > window.innerHeight - SCROLL_EDGE) {
+      window.scrollBy(0, SCROLL_STEP)
+    }
+
+    const tile = document.elementFromPoint(event.clientX, event.clientY)?.closest<HTMLElement>('[data-album-photo-id]')
+    const overId = tile?.dataset.albumPhotoId
+    if (!overId || overId === draggingId) return
+
+    const from = draft.findIndex(albumPhoto => albumPhoto.id === draggingId)
+    const to = draft.findIndex(albumPhoto => albumPhoto.id === overId)
+    if (from !== -1 && to !== -1) {
+      setDraft(moveItem(draft, from, to))
+    }
+  }
+
+  const finishDrag = () => {
+    if (!draggingId) return
+    const moved = draft && draft.some((albumPhoto, index) => albumPhoto.id !== photos[index]?.id)
+    if (moved) {
+      onReorder(draft)
+    }
+    setDraggingId(null)
+    setDraft(null)
+  }
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLButtonElement>, index: number) => {
+    if (disabled) return
+
+    const targets: Record<string, number> = {
+      ArrowLeft: index - 1,
+      ArrowUp: index - 1,
+      ArrowRight: index + 1,
+      ArrowDown: index + 1,
+      Home: 0,
+      End: photos.length - 1
+    }
+    const to = targets[event.key]
+    if (to === undefined) return
+
+    event.preventDefault()
+    if (to < 0 || to >= photos.length || to === index) return
+
+    setFocusId(photos[index].id)
+    onReorder(moveItem(photos, index, to))
+  }
+
+  return (
+    <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6 gap-4">
+      {shown.map((albumPhoto, index) => (
+        <div
+          key={albumPhoto.id}
+          data-album-photo-id={albumPhoto.id}
+          className={`relative aspect-square rounded-lg overflow-hidden bg-gray-200 shadow transition-opacity ${
+            draggingId === albumPhoto.id ? 'opacity-50 ring-2 ring-blue-500' : ''
+          }`}
+        >
+          {albumPhoto.imageUrl && albumPhoto.photo ? (
+            <SignedImage
+              path={getPhotoVariantPath(albumPhoto.photo, 'thumbnail')}
+              src={albumPhoto.imageUrl}
+              alt={albumPhoto.photo.original_filename}
+              fill
+              sizes="(max-width: 640px) 50vw, (max-width: 1024px) 25vw, 16vw"
+              className="object-cover pointer-events-none select-none"
+              draggable={false}
+              {...getPlaceholderProps(albumPhoto.photo)}
+            />
+          ) : (
+            <PhotoPlaceholder placeholder={albumPhoto.photo?.placeholder}>
+              <Images className="w-8 h-8 text-gray-400" />
+            </PhotoPlaceholder>
+          )}
+          {albumPhoto.photo?.media_type === 'video' && (
+            <VideoBadge duration={albumPhoto.photo.duration} />
+          )}
+          <span className="absolute top-2 right-2 px-1.5 py-0.5 text-xs font-medium text-white bg-black/60 rounded">
+            {index + 1}
+          </span>
+          <button
+            ref={(element) => {
+              if (element) {
+                handleRefs.current.set(albumPhoto.id, element)
+              } else {
+                handleRefs.current.delete(albumPhoto.id)
+              }
+            }}
+            type="button"
+            onPointerDown={(event) => handlePointerDown(event, albumPhoto.id)}
+            onPointerMove={handlePointerMove}
+            onPointerUp={finishDrag}
+            onPointerCancel={finishDrag}
+            onKeyDown={(event) => handleKeyDown(event, index)}
+            // Not disabled outright, which would drop keyboard focus while a move saves
+            aria-disabled={disabled}
+            aria-label={`Move photo ${index + 1} of ${shown.length}. Drag, or use the arrow keys.`}
+            className="absolute top-2 left-2 flex items-center justify-center w-9 h-9 bg-white/90 text-gray-700 rounded-md shadow cursor-grab active:cursor-grabbing touch-none focus:outline-none focus:ring-2 focus:ring-blue-500 aria-disabled:opacity-50"
+          >
+            <GripVertical className="w-5 h-5" />
+          </button>
+        </div>
+      ))}
+    </div>
+  )
+}
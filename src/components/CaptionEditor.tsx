@@ -0,0 +1,185 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Edit2, Check, X, History } from 'lucide-react'
+import { formatTimeAgo } from '@/lib/utils'
+import { getDisplayName } from '@/lib/supabase/profiles'
+import {
+  canEditCaption,
+  updatePhotoCaption,
+  getCaptionHistory,
+  type Photo,
+  type CaptionEdit
+} from '@/lib/supabase/photos'
+import { type CaptionEditPolicy } from '@/lib/supabase/settings'
+
+interface CaptionEditorProps {
+  photo: Photo
+  currentUserId: string | null
+  editPolicy: CaptionEditPolicy
+  onCaptionChange?: (photo: Photo) => void
+  variant?: 'dark' | 'light'
+}
+
+const variantStyles = {
+  dark: {
+    caption: 'text-sm md:text-base text-gray-300',
+    muted: 'text-xs text-gray-400 hover:text-gray-200',
+    input: 'bg-gray-900 text-white border-gray-600',
+    history: 'bg-gray-900 text-gray-300',
+    historyMuted: 'text-gray-500'
+  },
+  light: {
+    caption: 'text-gray-700',
+    muted: 'text-xs text-gray-500 hover:text-gray-700',
+    input: 'bg-white text-gray-900 border-gray-300',
+    history: 'bg-gray-50 text-gray-700',
+    historyMuted: 'text-gray-400'
+  }
+}
+
+export default function CaptionEditor({
+  photo,
+  currentUserId,
+  editPolicy,
+  onCaptionChange,
+  variant = 'dark'
+}: CaptionEditorProps) {
+  const [isEditing, setIsEditing] = useState(false)
+  const [editText, setEditText] = useState(photo.caption || '')
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState('')
+  const [history, setHistory] = useState<CaptionEdit[]>([])
+  const [showHistory, setShowHistory] = useState(false)
+  const styles = variantStyles[variant]
+  const canEdit = canEditCaption(photo, currentUserId, editPolicy)
+
+  const loadHistory = useCallback(async () => {
+    setHistory(await getCaptionHistory(photo.id))
+  }, [photo.id])
+
+  // Reset when moving to another photo
+  useEffect(() => {
+    setIsEditing(false)
+    setShowHistory(false)
+    setError('')
+    loadHistory()
+  }, [loadHistory])
+
+  useEffect(() => {
+    setEditText(photo.caption || '')
+  }, [photo.caption])
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    setError('')
+    try {
+      const updatedPhoto = await updatePhotoCaption(photo.id, editText)
+      setIsEditing(false)
+      onCaptionChange?.(updatedPhoto)
+      await loadHistory()
+    } catch (error) {
+      console.error('Error saving caption:', error)
+      setError(error instanceof Error ? error.message : 'Failed to save caption')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleCancel = () => {
+    setEditText(photo.caption || '')
+    setError('')
+    setIsEditing(false)
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault()
+      handleSave()
+    } else if (e.key === 'Escape') {
+      handleCancel()
+    }
+  }
+
+  if (isEditing) {
+    return (
+      <div className="space-y-2">
+        <textarea
+          value={editText}
+          onChange={(e) => setEditText(e.target.value)}
+          onKeyDown={handleKeyDown}
+          disabled={isSaving}
+          rows={3}
+          maxLength={1000}
+          autoFocus
+          className={`w-full px-3 py-2 text-sm border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 ${styles.input}`}
+          placeholder="Write a caption..."
+        />
+        {error && <p className="text-xs text-red-400">{error}</p>}
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={handleSave}
+            disabled={isSaving}
+            className="flex items-center px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+          >
+            <Check className="w-4 h-4 mr-1" />
+            {isSaving ? 'Saving...' : 'Save'}
+          </button>
+          <button
+            onClick={handleCancel}
+            disabled={isSaving}
+            className={`flex items-center px-3 py-1 text-sm disabled:opacity-50 ${styles.muted}`}
+          >
+            <X className="w-4 h-4 mr-1" />
+            Cancel
+          </button>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-1">
+      {photo.caption && (
+        <p className={styles.caption}>{photo.caption}</p>
+      )}
+
+      <div className="flex items-center space-x-3">
+        {canEdit && (
+          <button
+            onClick={() => setIsEditing(true)}
+            className={`flex items-center ${styles.muted}`}
+          >
+            <Edit2 className="w-3 h-3 mr-1" />
+            {photo.caption ? 'Edit caption' : 'Add a caption'}
+          </button>
+        )}
+        {history.length > 0 && (
+          <button
+            onClick={() => setShowHistory(!showHistory)}
+            className={`flex items-center ${styles.muted}`}
+          >
+            <History className="w-3 h-3 mr-1" />
+            Edited {history.length} time{history.length !== 1 ? 's' : ''}
+          </button>
+        )}
+      </div>
+
+      {showHistory && (
+        <ul className={`mt-2 rounded-md p-3 space-y-2 text-xs max-h-40 overflow-y-auto ${styles.history}`}>
+          {history.map((edit) => (
+            <li key={edit.id}>
+              <p>
+                <span className="font-medium">{getDisplayName(edit.editor_profile || null)}</span>
+                {' '}changed it {formatTimeAgo(edit.edited_at)}
+              </p>
+              <p className={styles.historyMuted}>
+                Was: {edit.previous_caption || <em>no caption</em>}
+              </p>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
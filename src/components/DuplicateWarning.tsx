@@ -0,0 +1,68 @@
+'use client'
+
+import Link from 'next/link'
+import { Copy } from 'lucide-react'
+import SignedImage from '@/components/SignedImage'
+import { getPhotoVariantPath, type PhotoDuplicate } from '@/lib/supabase/photos'
+import { getDisplayName } from '@/lib/supabase/profiles'
+
+interface DuplicateWarningProps {
+  duplicate: PhotoDuplicate
+  skipped: boolean
+  onSkippedChange: (skipped: boolean) => void
+  disabled?: boolean
+}
+
+/**
+ * Shown under a file on the upload page when the same (or a very similar)
+ * photo is already in the library, with a choice to skip it or upload anyway
+ */
+export default function DuplicateWarning({ duplicate, skipped, onSkippedChange, disabled }: DuplicateWarningProps) {
+  const { photo, exact } = duplicate
+
+  return (
+    <div className="mt-1 flex items-center p-2 bg-amber-50 border border-amber-200 rounded-md">
+      <Link
+        href={`/photos/${photo.id}`}
+        target="_blank"
+        className="relative w-12 h-12 flex-shrink-0 rounded overflow-hidden bg-gray-200"
+      >
+        <SignedImage
+          path={getPhotoVariantPath(photo, 'thumbnail')}
+          src={photo.imageUrl}
+          alt={photo.original_filename}
+          fill
+          sizes="48px"
+          className="object-cover"
+          fallback={<Copy className="w-5 h-5 text-gray-400 m-auto mt-3.5" />}
+        />
+      </Link>
+      <div className="ml-3 flex-1 min-w-0 text-xs">
+        <p className="font-medium text-amber-800">
+          {exact ? 'Already uploaded' : 'Looks like a photo already uploaded'}
+        </p>
+        <p className="text-amber-700 truncate">
+          by {getDisplayName(photo.uploader_profile)} on {new Date(photo.uploaded_at).toLocaleDateString()}
+        </p>
+      </div>
+      <div className="ml-2 flex rounded-md border border-amber-300 overflow-hidden text-xs whitespace-nowrap">
+        <button
+          type="button"
+          onClick={() => onSkippedChange(true)}
+          disabled={disabled}
+          className={`px-2 py-1 ${skipped ? 'bg-amber-200 text-amber-900' : 'bg-white text-gray-600 hover:bg-amber-100'}`}
+        >
+          Skip
+        </button>
+        <button
+          type="button"
+          onClick={() => onSkippedChange(false)}
+          disabled={disabled}
+          className={`px-2 py-1 border-l border-amber-300 ${!skipped ? 'bg-amber-200 text-amber-900' : 'bg-white text-gray-600 hover:bg-amber-100'}`}
+        >
+          Upload anyway
+        </button>
+      </div>
+    </div>
+  )
+}
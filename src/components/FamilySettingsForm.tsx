@@ -0,0 +1,109 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { CheckCircle, XCircle } from 'lucide-react'
+import {
+  getFamilySettings,
+  updateFamilySettings,
+  type FamilySettings,
+  type FamilySettingsUpdate
+} from '@/lib/supabase/settings'
+import { PROCESSING_PROFILES, DEFAULT_PROCESSING_PROFILE } from '@/lib/processingProfiles'
+
+export default function FamilySettingsForm() {
+  const [settings, setSettings] = useState<FamilySettings | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  useEffect(() => {
+    getFamilySettings().then(setSettings)
+  }, [])
+
+  const saveSetting = async (updates: FamilySettingsUpdate) => {
+    setIsSaving(true)
+    setMessage(null)
+
+    try {
+      setSettings(await updateFamilySettings(updates))
+      setMessage({ type: 'success', text: 'Settings saved' })
+    } catch (error) {
+      console.error('Error saving family settings:', error)
+      setMessage({
+        type: 'error',
+        text: error instanceof Error ? error.message : 'Failed to save settings'
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow">
+      <div className="p-6 border-b border-gray-200">
+        <h2 className="text-lg font-semibold text-gray-900">Family Settings</h2>
+        <p className="text-sm text-gray-600 mt-1">
+          These apply to everyone in the family
+        </p>
+      </div>
+      <div className="p-6 space-y-6">
+        {message && (
+          <div className={`rounded-md p-4 ${message.type === 'success' ? 'bg-green-50 border border-green-200' : 'bg-red-50 border border-red-200'}`}>
+            <div className="flex items-center">
+              {message.type === 'success' ? (
+                <CheckCircle className="w-5 h-5 text-green-400 mr-2" />
+              ) : (
+                <XCircle className="w-5 h-5 text-red-400 mr-2" />
+              )}
+              <p className={`text-sm ${message.type === 'success' ? 'text-green-800' : 'text-red-800'}`}>
+                {message.text}
+              </p>
+            </div>
+          </div>
+        )}
+
+        <div>
+          <label htmlFor="captionEditPolicy" className="block text-sm font-medium text-gray-700 mb-2">
+            Who can edit captions
+          </label>
+          <select
+            id="captionEditPolicy"
+            value={settings?.caption_edit_policy || 'owner'}
+            onChange={(e) => saveSetting({
+              caption_edit_policy: e.target.value as FamilySettings['caption_edit_policy']
+            })}
+            disabled={!settings || isSaving}
+            className="block w-full sm:w-80 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-50"
+          >
+            <option value="owner">Only the person who uploaded the photo</option>
+            <option value="members">Any family member</option>
+          </select>
+          <p className="text-xs text-gray-500 mt-1">
+            Earlier versions of a caption are always kept in its edit history
+          </p>
+        </div>
+
+        <div>
+          <label htmlFor="defaultProcessingProfile" className="block text-sm font-medium text-gray-700 mb-2">
+            Default upload quality
+          </label>
+          <select
+            id="defaultProcessingProfile"
+            value={settings?.default_processing_profile || DEFAULT_PROCESSING_PROFILE}
+            onChange={(e) => saveSetting({
+              default_processing_profile: e.target.value as FamilySettings['default_processing_profile']
+            })}
+            disabled={!settings || isSaving}
+            className="block w-full sm:w-80 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-50"
+          >
+            {Object.values(PROCESSING_PROFILES).map((profile) => (
+              <option key={profile.id} value={profile.id}>{profile.name}</option>
+            ))}
+          </select>
+          <p className="text-xs text-gray-500 mt-1">
+            Used for dropped and pasted photos, and preselected on the upload page
+          </p>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,30 @@
+'use client'
+
+import { HIGHLIGHT_START, HIGHLIGHT_END } from '@/types/search'
+
+interface HighlightedTextProps {
+  text: string
+  className?: string
+}
+
+/**
+ * Render a search headline, marking the words between the highlight
+ * characters. Everything is rendered as plain text.
+ */
+export default function HighlightedText({ text, className }: HighlightedTextProps) {
+  const parts = text.split(HIGHLIGHT_START)
+
+  return (
+    <span className={className}>
+      {parts.map((part, index) => {
+        const [match, rest] = index === 0 ? ['', part] : part.split(HIGHLIGHT_END)
+        return (
+          <span key={index}>
+            {match && <mark className="bg-yellow-200 text-inherit rounded-sm px-0.5">{match}</mark>}
+            {rest}
+          </span>
+        )
+      })}
+    </span>
+  )
+}
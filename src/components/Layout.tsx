@@ -4,8 +4,13 @@ import { createClient } from '@/lib/supabase/client'
 import { User } from '@supabase/supabase-js'
 import { useState, useEffect } from 'react'
 import Link from 'next/link'
+import { usePathname } from 'next/navigation'
 import Image from 'next/image'
-import { User as UserIcon, Settings } from 'lucide-react'
+import { User as UserIcon, Settings, Trash2, Copy } from 'lucide-react'
+import SearchBox from '@/components/SearchBox'
+import UploadDropZone from '@/components/UploadDropZone'
+import UploadTray from '@/components/UploadTray'
+import { useUploadQueue } from '@/hooks/useUploadQueue'
 import { getCurrentUserProfile, getDisplayName, getAvatarUrl, type Profile } from '@/lib/supabase/profiles'
 
 interface LayoutProps {
@@ -16,6 +21,8 @@ interface LayoutProps {
 export default function Layout({ children, user }: LayoutProps) {
   const [profile, setProfile] = useState<Profile | null>(null)
   const supabase = createClient()
+  const pathname = usePathname()
+  const uploads = useUploadQueue(user.id)
 
   useEffect(() => {
     const loadProfile = async () => {
@@ -45,6 +52,7 @@ export default function Layout({ children, user }: LayoutProps) {
             </div>
             
             <div className="flex items-center space-x-4">
+              <SearchBox />
               <Link 
                 href="/upload" 
                 className="bg-blue-500 hover:bg-blue-700 text-white px-4 py-2 rounded-md text-sm font-medium"
@@ -87,6 +95,24 @@ export default function Layout({ children, user }: LayoutProps) {
                   </span>
                 </Link>
                 
+                {/* Duplicates Link */}
+                <Link 
+                  href="/duplicates" 
+                  className="text-gray-500 hover:text-gray-700 p-1 rounded"
+                  title="Duplicates"
+                >
+                  <Copy className="w-4 h-4" />
+                </Link>
+
+                {/* Trash Link */}
+                <Link 
+                  href="/trash" 
+                  className="text-gray-500 hover:text-gray-700 p-1 rounded"
+                  title="Trash"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Link>
+
                 {/* Profile Settings Link */}
                 <Link 
                   href="/profile" 
@@ -112,6 +138,10 @@ export default function Layout({ children, user }: LayoutProps) {
       <main className="max-w-7xl mx-auto py-6 px-4 sm:px-6 lg:px-8">
         {children}
       </main>
+
+      <UploadDropZone userId={user.id} />
+      {/* The upload page shows the full list itself */}
+      {pathname !== '/upload' && <UploadTray uploads={uploads} />}
     </div>
   )
 }
\ No newline at end of file
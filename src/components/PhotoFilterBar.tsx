@@ -0,0 +1,91 @@
+'use client'
+
+import { Heart, MessageCircle, FolderMinus, X } from 'lucide-react'
+import { getDisplayName, type Profile } from '@/lib/supabase/profiles'
+import {
+  EMPTY_PHOTO_FILTERS,
+  hasActivePhotoFilters,
+  type PhotoFilters
+} from '@/lib/photoFilters'
+
+interface PhotoFilterBarProps {
+  filters: PhotoFilters
+  uploaders: Profile[]
+  onChange: (filters: PhotoFilters) => void
+}
+
+const TOGGLES = [
+  { key: 'reactedByMe', label: 'I reacted to', icon: Heart },
+  { key: 'hasComments', label: 'Has comments', icon: MessageCircle },
+  { key: 'notInAlbum', label: 'Not in an album', icon: FolderMinus }
+] as const
+
+export default function PhotoFilterBar({ filters, uploaders, onChange }: PhotoFilterBarProps) {
+  const update = (updates: Partial<PhotoFilters>) => {
+    onChange({ ...filters, ...updates })
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 mb-6">
+      <select
+        value={filters.uploader || ''}
+        onChange={(e) => update({ uploader: e.target.value || null })}
+        className="px-3 py-2 text-sm border border-gray-300 rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+        aria-label="Uploaded by"
+      >
+        <option value="">Everyone</option>
+        {uploaders.map(profile => (
+          <option key={profile.id} value={profile.id}>
+            {getDisplayName(profile)}
+          </option>
+        ))}
+      </select>
+
+      <div className="flex items-center gap-2 text-sm text-gray-600">
+        <input
+          type="date"
+          value={filters.from || ''}
+          max={filters.to || undefined}
+          onChange={(e) => update({ from: e.target.value || null })}
+          className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          aria-label="Taken from"
+        />
+        <span>to</span>
+        <input
+          type="date"
+          value={filters.to || ''}
+          min={filters.from || undefined}
+          onChange={(e) => update({ to: e.target.value || null })}
+          className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          aria-label="Taken until"
+        />
+      </div>
+
+      {TOGGLES.map(({ key, label, icon: Icon }) => (
+        <button
+          key={key}
+          onClick={() => update({ [key]: !filters[key] })}
+          aria-pressed={filters[key]}
+          className={`inline-flex items-center px-3 py-2 text-sm border rounded-lg transition-colors ${
+            filters[key]
+              ? 'bg-blue-50 border-blue-300 text-blue-700'
+              : 'border-gray-300 text-gray-600 hover:bg-gray-50'
+          }`}
+        >
+          <Icon className="w-4 h-4 mr-1" />
+          {label}
+        </button>
+      ))}
+
+      {hasActivePhotoFilters(filters) && (
+        <button
+          onClick={() => onChange(EMPTY_PHOTO_FILTERS)}
+          className="inline-flex items-center px-3 py-2 text-sm text-gray-600 hover:text-gray-900"
+        >
+          <X className="w-4 h-4 mr-1" />
+          Clear filters
+        </button>
+      )}
+    </div>
+  )
+}
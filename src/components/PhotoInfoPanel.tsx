@@ -0,0 +1,107 @@
+'use client'
+
+import { Calendar, Camera, Aperture, Maximize2, MapPin, SlidersHorizontal } from 'lucide-react'
+import { formatExposureTime } from '@/lib/exif'
+import { type Photo } from '@/lib/supabase/photos'
+import { describeProcessing } from '@/lib/processingProfiles'
+
+interface PhotoInfoPanelProps {
+  photo: Photo
+  variant?: 'dark' | 'light'
+}
+
+const variantStyles = {
+  dark: {
+    panel: 'bg-gray-900 text-gray-300',
+    icon: 'text-gray-500',
+    muted: 'text-gray-500',
+    link: 'text-blue-400 hover:text-blue-300'
+  },
+  light: {
+    panel: 'bg-gray-50 text-gray-700',
+    icon: 'text-gray-400',
+    muted: 'text-gray-400',
+    link: 'text-blue-600 hover:text-blue-800'
+  }
+}
+
+export default function PhotoInfoPanel({ photo, variant = 'dark' }: PhotoInfoPanelProps) {
+  const styles = variantStyles[variant]
+
+  // Many models already start with the make, e.g. "Canon EOS R6"
+  const camera = photo.camera_make && photo.camera_model?.startsWith(photo.camera_make)
+    ? photo.camera_model
+    : [photo.camera_make, photo.camera_model].filter(Boolean).join(' ')
+
+  const exposure = [
+    photo.f_number ? `f/${photo.f_number}` : null,
+    photo.exposure_time ? formatExposureTime(photo.exposure_time) : null,
+    photo.iso ? `ISO ${photo.iso}` : null,
+    photo.focal_length ? `${Math.round(photo.focal_length)}mm` : null
+  ].filter(Boolean).join(' · ')
+
+  const hasLocation = typeof photo.gps_latitude === 'number' && typeof photo.gps_longitude === 'number'
+
+  const rows = [
+    photo.taken_at && {
+      icon: Calendar,
+      label: 'Taken',
+      value: new Date(photo.taken_at).toLocaleString('en-US', {
+        year: 'numeric',
+        month: 'long',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: '2-digit'
+      })
+    },
+    camera && { icon: Camera, label: 'Camera', value: camera },
+    photo.lens_model && { icon: Camera, label: 'Lens', value: photo.lens_model },
+    exposure && { icon: Aperture, label: 'Exposure', value: exposure },
+    photo.width && photo.height && {
+      icon: Maximize2,
+      label: 'Original size',
+      value: `${photo.width} × ${photo.height} (${((photo.width * photo.height) / 1000000).toFixed(1)} MP)`
+    },
+    photo.processing_profile && photo.media_type !== 'video' && {
+      icon: SlidersHorizontal,
+      label: 'Uploaded as',
+      value: describeProcessing(photo.processing_profile, photo.output_format)
+    }
+  ].filter((row): row is { icon: typeof Calendar; label: string; value: string } => Boolean(row))
+
+  if (rows.length === 0 && !hasLocation) {
+    return (
+      <div className={`rounded-md p-3 text-xs ${styles.panel}`}>
+        <p className={styles.muted}>No camera details were saved with this photo.</p>
+      </div>
+    )
+  }
+
+  return (
+    <dl className={`rounded-md p-3 space-y-2 text-xs ${styles.panel}`}>
+      {rows.map(({ icon: Icon, label, value }) => (
+        <div key={label} className="flex items-start">
+          <Icon className={`w-4 h-4 mr-2 flex-shrink-0 ${styles.icon}`} />
+          <dt className="sr-only">{label}</dt>
+          <dd>{value}</dd>
+        </div>
+      ))}
+      {hasLocation && (
+        <div className="flex items-start">
+          <MapPin className={`w-4 h-4 mr-2 flex-shrink-0 ${styles.icon}`} />
+          <dt className="sr-only">Location</dt>
+          <dd>
+            <a
+              href={`https://www.openstreetmap.org/?mlat=${photo.gps_latitude}&mlon=${photo.gps_longitude}#map=15/${photo.gps_latitude}/${photo.gps_longitude}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className={styles.link}
+            >
+              {photo.gps_latitude!.toFixed(5)}, {photo.gps_longitude!.toFixed(5)}
+            </a>
+          </dd>
+        </div>
+      )}
+    </dl>
+  )
+}
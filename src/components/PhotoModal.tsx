@@ -3,12 +3,25 @@
 import { useEffect, useCallback, useState, useRef } from 'react'
 import { createPortal } from 'react-dom'
 import Image from 'next/image'
-import { X, ChevronLeft, ChevronRight, User as UserIcon } from 'lucide-react'
+import { X, ChevronLeft, ChevronRight, User as UserIcon, Trash2, Info, Download } from 'lucide-react'
 import CommentsList from './CommentsList'
 import AddComment from './AddComment'
 import ReactionButton from './ReactionButton'
 import ReactionSummary from './ReactionSummary'
-import { getDisplayName, getAvatarUrl, type Profile } from '@/lib/supabase/profiles'
+import CaptionEditor from './CaptionEditor'
+import PhotoInfoPanel from './PhotoInfoPanel'
+import SignedImage from './SignedImage'
+import SignedVideo from './SignedVideo'
+import { getDisplayName, getAvatarUrl } from '@/lib/supabase/profiles'
+import {
+  trashPhoto,
+  getPhotoVariantPath,
+  getOriginalDownloadUrl,
+  type Photo,
+  type PhotoVariant,
+  type PhotoWithProfile
+} from '@/lib/supabase/photos'
+import { getFamilySettings, type CaptionEditPolicy } from '@/lib/supabase/settings'
 import { 
   loadComments, 
   addComment, 
@@ -24,21 +37,6 @@ import {
 } from '@/lib/reactions'
 import { useHeartReaction } from '@/hooks/useDoubleTap'
 
-interface Photo {
-  id: string
-  filename: string
-  original_filename: string
-  caption: string | null
-  file_path: string
-  uploaded_at: string
-  uploaded_by: string
-}
-
-interface PhotoWithProfile extends Photo {
-  imageUrl: string | null
-  uploader_profile: Profile | null
-}
-
 interface PhotoModalProps {
   photos: PhotoWithProfile[]
   currentIndex: number
@@ -46,6 +44,8 @@ interface PhotoModalProps {
   onClose: () => void
   onNext: () => void
   onPrevious: () => void
+  onPhotoDeleted?: (photoId: string) => void
+  onPhotoUpdated?: (photo: Photo) => void
 }
 
 export default function PhotoModal({
@@ -54,12 +54,17 @@ export default function PhotoModal({
   isOpen,
   onClose,
   onNext,
-  onPrevious
+  onPrevious,
+  onPhotoDeleted,
+  onPhotoUpdated
 }: PhotoModalProps) {
   const currentPhoto = photos[currentIndex]
   const [touchStart, setTouchStart] = useState<number | null>(null)
   const [touchEnd, setTouchEnd] = useState<number | null>(null)
   const modalRef = useRef<HTMLDivElement>(null)
+  const pushedHistoryRef = useRef(false)
+  const closingRef = useRef(false) // waiting for our history.back() to land
+  const currentPhotoId = currentPhoto?.id
 
   // Comments state
   const [comments, setComments] = useState<Comment[]>([])
@@ -70,15 +75,37 @@ export default function PhotoModal({
   const [reactions, setReactions] = useState<ReactionSummaryType[]>([])
   const [, setReactionsLoading] = useState(false)
 
+  const [isDeleting, setIsDeleting] = useState(false)
+  const [isDownloading, setIsDownloading] = useState(false)
+  const [showInfo, setShowInfo] = useState(false)
+  const [captionEditPolicy, setCaptionEditPolicy] = useState<CaptionEditPolicy>('owner')
+  const [largeVariant, setLargeVariant] = useState<PhotoVariant>('full')
+
   // Minimum swipe distance (in px)
   const minSwipeDistance = 50
 
+  // Closing goes through the browser history when we pushed an entry for
+  // the photo, so the popstate handler below is the single place that closes
+  const requestClose = useCallback(() => {
+    if (pushedHistoryRef.current) {
+      closingRef.current = true
+      window.history.back()
+    } else {
+      onClose()
+    }
+  }, [onClose])
+
   const handleKeyDown = useCallback((event: KeyboardEvent) => {
     if (!isOpen) return
 
+    // Leave keys alone while typing a comment or caption
+    if (event.target instanceof HTMLInputElement || event.target instanceof HTMLTextAreaElement) {
+      return
+    }
+
     switch (event.key) {
       case 'Escape':
-        onClose()
+        requestClose()
         break
       case 'ArrowLeft':
         event.preventDefault()
@@ -89,13 +116,13 @@ export default function PhotoModal({
         onNext()
         break
     }
-  }, [isOpen, onClose, onNext, onPrevious])
+  }, [isOpen, requestClose, onNext, onPrevious])
 
   const handleBackdropClick = useCallback((event: React.MouseEvent) => {
     if (event.target === event.currentTarget) {
-      onClose()
+      requestClose()
     }
-  }, [onClose])
+  }, [requestClose])
 
   const onTouchStart = (e: React.TouchEvent) => {
     setTouchEnd(null)
@@ -211,6 +238,42 @@ export default function PhotoModal({
     await loadPhotoReactions(currentPhoto.id)
   }, [currentPhoto, loadPhotoReactions])
 
+  // Move the current photo to the trash (uploader only)
+  const handleDeletePhoto = useCallback(async () => {
+    if (!currentPhoto) return
+
+    const confirmed = confirm('Move this photo to the trash? You can restore it from the Trash page for 30 days.')
+    if (!confirmed) return
+
+    setIsDeleting(true)
+    try {
+      await trashPhoto(currentPhoto.id)
+      onPhotoDeleted?.(currentPhoto.id)
+      requestClose()
+    } catch (error) {
+      console.error('Error deleting photo:', error)
+      alert('Failed to delete photo. Please try again.')
+    } finally {
+      setIsDeleting(false)
+    }
+  }, [currentPhoto, onPhotoDeleted, requestClose])
+
+  // Download the untouched file, when the uploader kept it
+  const handleDownloadOriginal = useCallback(async () => {
+    if (!currentPhoto) return
+
+    setIsDownloading(true)
+    try {
+      // The link is served as an attachment, so this doesn't leave the page
+      window.location.assign(await getOriginalDownloadUrl(currentPhoto))
+    } catch (error) {
+      console.error('Error downloading original:', error)
+      alert('Failed to download the original. Please try again.')
+    } finally {
+      setIsDownloading(false)
+    }
+  }, [currentPhoto])
+
   // Double-tap handlers for heart reactions
   const doubleTapHandlers = useHeartReaction(handleHeartReaction, true)
 
@@ -228,13 +291,73 @@ export default function PhotoModal({
     }
   }, [isOpen, handleKeyDown])
 
-  // Load current user when modal opens
+  // If the parent closes the modal itself (the photo was trashed, or the
+  // page moved on) while our entry is still the current one, take it back
+  // off so Back doesn't land on a photo URL over the gallery
+  const isShowing = isOpen && Boolean(currentPhotoId)
+  const showingRef = useRef(false)
+  useEffect(() => {
+    if (!isShowing) return
+    showingRef.current = true
+    // A close that went back while the popstate listener was gone
+    if (closingRef.current && !window.history.state?.photoModal) {
+      closingRef.current = false
+      pushedHistoryRef.current = false
+    }
+
+    return () => {
+      showingRef.current = false
+      // Checked after a tick so a development remount doesn't count as closing
+      setTimeout(() => {
+        if (showingRef.current || !pushedHistoryRef.current || closingRef.current) return
+        pushedHistoryRef.current = false
+        if (window.history.state?.photoModal) {
+          window.history.back()
+        }
+      })
+    }
+  }, [isShowing])
+
+  // Mirror the open photo in the address bar so the link can be shared
+  useEffect(() => {
+    if (!isOpen || !currentPhotoId || closingRef.current) return
+
+    const photoUrl = `/photos/${currentPhotoId}`
+    if (!pushedHistoryRef.current) {
+      window.history.pushState({ photoModal: true }, '', photoUrl)
+      pushedHistoryRef.current = true
+    } else {
+      window.history.replaceState({ photoModal: true }, '', photoUrl)
+    }
+  }, [isOpen, currentPhotoId])
+
+  // Browser back closes the modal
+  useEffect(() => {
+    if (!isOpen) return
+
+    const handlePopState = () => {
+      pushedHistoryRef.current = false
+      closingRef.current = false
+      onClose()
+    }
+
+    window.addEventListener('popstate', handlePopState)
+    return () => window.removeEventListener('popstate', handlePopState)
+  }, [isOpen, onClose])
+
+  // Load current user and family settings when modal opens
   useEffect(() => {
     if (isOpen) {
       getCurrentUser().then(setCurrentUser)
+      getFamilySettings().then(settings => setCaptionEditPolicy(settings.caption_edit_policy))
     }
   }, [isOpen])
 
+  // Phones get the medium copy; the full one is wasted on a small screen
+  useEffect(() => {
+    setLargeVariant(window.matchMedia('(max-width: 768px)').matches ? 'medium' : 'full')
+  }, [])
+
   // Load comments when photo changes
   useEffect(() => {
     if (isOpen && currentPhoto) {
@@ -270,7 +393,7 @@ export default function PhotoModal({
     >
       {/* Close Button */}
       <button
-        onClick={onClose}
+        onClick={requestClose}
         className="absolute top-4 right-4 z-10 p-2 text-white hover:text-gray-300 transition-colors duration-200 bg-black bg-opacity-50 rounded-full"
         aria-label="Close modal"
       >
@@ -304,7 +427,23 @@ export default function PhotoModal({
         {/* Image Container */}
         <div className="relative flex-1 w-full lg:w-2/3 flex flex-col items-center justify-center min-h-0 space-y-4">
           <div className="relative w-full flex-1 flex items-center justify-center overflow-hidden">
-            {currentPhoto.imageUrl ? (
+            {currentPhoto.media_type === 'video' ? (
+              <div
+                className="relative w-full h-full flex items-center justify-center"
+                style={{
+                  maxHeight: 'calc(100vh - 200px)',
+                  minHeight: '300px'
+                }}
+              >
+                <SignedVideo
+                  path={currentPhoto.file_path}
+                  posterPath={getPhotoVariantPath(currentPhoto, 'medium')}
+                  poster={currentPhoto.imageUrl}
+                  autoPlay
+                  className="max-w-full max-h-full"
+                />
+              </div>
+            ) : currentPhoto.imageUrl ? (
               <div 
                 className="relative w-full h-full cursor-pointer select-none flex items-center justify-center"
                 {...doubleTapHandlers}
@@ -316,14 +455,25 @@ export default function PhotoModal({
                   minHeight: '300px'
                 }}
               >
-                <Image
-                  src={currentPhoto.imageUrl}
+                {/* The gallery only signed the thumbnail, which stays up until the larger size is ready */}
+                <SignedImage
+                  path={getPhotoVariantPath(currentPhoto, largeVariant)}
                   alt={currentPhoto.original_filename}
                   fill
                   className="object-contain transition-transform duration-300"
                   priority
                   draggable={false}
                   sizes="(max-width: 768px) 95vw, (max-width: 1024px) 65vw, 55vw"
+                  fallback={
+                    <Image
+                      src={currentPhoto.imageUrl}
+                      alt={currentPhoto.original_filename}
+                      fill
+                      className="object-contain"
+                      draggable={false}
+                      sizes="(max-width: 768px) 95vw, (max-width: 1024px) 65vw, 55vw"
+                    />
+                  }
                 />
               </div>
             ) : (
@@ -365,11 +515,13 @@ export default function PhotoModal({
             <h2 className="text-lg md:text-xl font-semibold">
               {currentPhoto.original_filename}
             </h2>
-            {currentPhoto.caption && (
-              <p className="text-sm md:text-base text-gray-300">
-                {currentPhoto.caption}
-              </p>
-            )}
+            <CaptionEditor
+              photo={currentPhoto}
+              currentUserId={currentUser?.id || null}
+              editPolicy={captionEditPolicy}
+              onCaptionChange={onPhotoUpdated}
+              variant="dark"
+            />
             
             {/* Uploader Information */}
             <div className="flex items-center space-x-2">
@@ -392,7 +544,41 @@ export default function PhotoModal({
                   {formatDate(currentPhoto.uploaded_at)}
                 </p>
               </div>
+              <button
+                onClick={() => setShowInfo(!showInfo)}
+                className={`ml-auto flex items-center text-xs transition-colors ${
+                  showInfo ? 'text-white' : 'text-gray-400 hover:text-white'
+                }`}
+                title="Photo details"
+              >
+                <Info className="w-4 h-4 mr-1" />
+                Info
+              </button>
+              {currentPhoto.original_path && (
+                <button
+                  onClick={handleDownloadOriginal}
+                  disabled={isDownloading}
+                  className="flex items-center text-xs text-gray-400 hover:text-white disabled:opacity-50 transition-colors"
+                  title="Download the original file"
+                >
+                  <Download className="w-4 h-4 mr-1" />
+                  Original
+                </button>
+              )}
+              {currentUser?.id === currentPhoto.uploaded_by && (
+                <button
+                  onClick={handleDeletePhoto}
+                  disabled={isDeleting}
+                  className="flex items-center text-xs text-gray-400 hover:text-red-400 disabled:opacity-50 transition-colors"
+                  title="Move to trash"
+                >
+                  <Trash2 className="w-4 h-4 mr-1" />
+                  {isDeleting ? 'Deleting...' : 'Delete'}
+                </button>
+              )}
             </div>
+
+            {showInfo && <PhotoInfoPanel photo={currentPhoto} variant="dark" />}
             
             {photos.length > 1 && (
               <p className="text-xs text-gray-500">
@@ -0,0 +1,28 @@
+'use client'
+
+interface PhotoPlaceholderProps {
+  placeholder?: string | null
+  children?: React.ReactNode
+}
+
+/**
+ * Fills a tile while its image URL is still being signed: the photo's
+ * blurred preview if it has one, otherwise a grey box with the children
+ */
+export default function PhotoPlaceholder({ placeholder, children }: PhotoPlaceholderProps) {
+  if (placeholder) {
+    return (
+      <div
+        className="w-full h-full bg-cover bg-center blur-md scale-110"
+        style={{ backgroundImage: `url(${placeholder})` }}
+        aria-hidden="true"
+      />
+    )
+  }
+
+  return (
+    <div className="w-full h-full bg-gray-200 flex items-center justify-center">
+      {children}
+    </div>
+  )
+}
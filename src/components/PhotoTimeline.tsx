@@ -0,0 +1,146 @@
+'use client'
+
+import { type ReactNode } from 'react'
+import { type PhotoWithProfile, type PhotoYear } from '@/lib/supabase/photos'
+
+interface PhotoTimelineProps {
+  photos: PhotoWithProfile[]
+  years: PhotoYear[]
+  renderPhoto: (photo: PhotoWithProfile, index: number) => ReactNode
+  onJumpToYear: (year: number) => void
+}
+
+interface DayGroup {
+  key: string
+  date: Date
+  items: { photo: PhotoWithProfile; index: number }[]
+}
+
+interface MonthGroup {
+  key: string
+  year: number
+  date: Date
+  days: DayGroup[]
+}
+
+/**
+ * Group photos (already sorted newest first) into months and days,
+ * keeping each photo's index in the flat list for the modal
+ */
+function groupByMonthAndDay(photos: PhotoWithProfile[]): MonthGroup[] {
+  const months: MonthGroup[] = []
+
+  photos.forEach((photo, index) => {
+    const date = new Date(photo.photo_date || photo.uploaded_at)
+    const monthKey = `${date.getFullYear()}-${date.getMonth()}`
+    const dayKey = `${monthKey}-${date.getDate()}`
+
+    let month = months[months.length - 1]
+    if (!month || month.key !== monthKey) {
+      month = { key: monthKey, year: date.getFullYear(), date, days: [] }
+      months.push(month)
+    }
+
+    let day = month.days[month.days.length - 1]
+    if (!day || day.key !== dayKey) {
+      day = { key: dayKey, date, items: [] }
+      month.days.push(day)
+    }
+
+    day.items.push({ photo, index })
+  })
+
+  return months
+}
+
+export default function PhotoTimeline({
+  photos,
+  years,
+  renderPhoto,
+  onJumpToYear
+}: PhotoTimelineProps) {
+  const months = groupByMonthAndDay(photos)
+  const loadedYears = new Set(months.map(month => month.year))
+
+  const jumpToYear = (year: number) => {
+    const header = document.getElementById(`timeline-year-${year}`)
+    if (loadedYears.has(year) && header) {
+      header.scrollIntoView({ behavior: 'smooth', block: 'start' })
+    } else {
+      onJumpToYear(year)
+    }
+  }
+
+  return (
+    <div className="flex gap-6">
+      <div className="flex-1 min-w-0">
+        {/* Year picker for small screens */}
+        {years.length > 1 && (
+          <div className="md:hidden mb-4">
+            <select
+              onChange={(e) => e.target.value && jumpToYear(Number(e.target.value))}
+              value=""
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">Jump to year...</option>
+              {years.map(({ year, photo_count }) => (
+                <option key={year} value={year}>
+                  {year} ({photo_count})
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {months.map((month, monthIndex) => {
+          const isFirstOfYear = monthIndex === 0 || months[monthIndex - 1].year !== month.year
+
+          return (
+            <section key={month.key} className="mb-8">
+              <h2
+                id={isFirstOfYear ? `timeline-year-${month.year}` : undefined}
+                className="sticky top-0 z-20 -mx-2 px-2 py-2 mb-4 bg-gray-50/95 backdrop-blur text-xl font-semibold text-gray-900 scroll-mt-2"
+              >
+                {month.date.toLocaleDateString('en-US', { month: 'long', year: 'numeric' })}
+              </h2>
+
+              {month.days.map((day) => (
+                <div key={day.key} className="mb-6">
+                  <h3 className="text-sm font-medium text-gray-500 mb-2">
+                    {day.date.toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric' })}
+                  </h3>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
+                    {day.items.map(({ photo, index }) => renderPhoto(photo, index))}
+                  </div>
+                </div>
+              ))}
+            </section>
+          )
+        })}
+      </div>
+
+      {/* Year scrubber */}
+      {years.length > 1 && (
+        <nav className="hidden md:block w-14 flex-shrink-0" aria-label="Jump to year">
+          <ul className="sticky top-4 flex flex-col items-end space-y-1 max-h-[calc(100vh-2rem)] overflow-y-auto">
+            {years.map(({ year, photo_count }) => (
+              <li key={year}>
+                <button
+                  onClick={() => jumpToYear(year)}
+                  className={`px-2 py-0.5 text-xs rounded transition-colors ${
+                    loadedYears.has(year)
+                      ? 'text-gray-900 font-semibold hover:bg-gray-200'
+                      : 'text-gray-500 hover:text-gray-900 hover:bg-gray-200'
+                  }`}
+                  title={`${photo_count} photo${photo_count !== 1 ? 's' : ''}`}
+                >
+                  {year}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </nav>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,44 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { Search } from 'lucide-react'
+
+export default function SearchBox() {
+  const [query, setQuery] = useState('')
+  const router = useRouter()
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    const trimmed = query.trim()
+    if (trimmed) {
+      router.push(`/search?q=${encodeURIComponent(trimmed)}`)
+    }
+  }
+
+  return (
+    <>
+      <form onSubmit={handleSubmit} className="hidden md:block relative" role="search">
+        <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2 pointer-events-none" />
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search photos..."
+          aria-label="Search photos, comments and albums"
+          className="w-56 pl-9 pr-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+      </form>
+
+      {/* Small screens go straight to the search page */}
+      <Link
+        href="/search"
+        className="md:hidden text-gray-500 hover:text-gray-700 p-1 rounded"
+        title="Search"
+      >
+        <Search className="w-5 h-5" />
+      </Link>
+    </>
+  )
+}
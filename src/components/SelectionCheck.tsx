@@ -0,0 +1,24 @@
+'use client'
+
+import { Check } from 'lucide-react'
+
+interface SelectionCheckProps {
+  selected: boolean
+}
+
+/**
+ * The round checkbox in the corner of a photo tile while photos are being selected
+ */
+export default function SelectionCheck({ selected }: SelectionCheckProps) {
+  return (
+    <div className="absolute top-2 right-2 z-10">
+      <div className={`w-6 h-6 rounded-full border-2 flex items-center justify-center ${
+        selected 
+          ? 'bg-blue-500 border-blue-500' 
+          : 'bg-white border-gray-300 hover:border-blue-500'
+      }`}>
+        {selected && <Check className="w-4 h-4 text-white" />}
+      </div>
+    </div>
+  )
+}
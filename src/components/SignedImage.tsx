@@ -0,0 +1,64 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Image, { type ImageProps } from 'next/image'
+import { getSignedUrl, invalidateSignedUrl } from '@/lib/supabase/photoUrls'
+
+interface SignedImageProps extends Omit<ImageProps, 'src' | 'onError'> {
+  path: string // storage path in the family-photos bucket
+  src?: string | null // an already signed URL for path, if there is one
+  fallback?: React.ReactNode
+}
+
+/**
+ * next/image for a private photo. Signs the URL if it wasn't given one,
+ * and re-signs if loading fails, which is what happens when a tab has
+ * been open longer than the URL lasts. That's tried once per URL, so a
+ * tab left open through several expiries keeps recovering.
+ */
+export default function SignedImage({ path, src, fallback = null, alt, onLoad, ...imageProps }: SignedImageProps) {
+  const [url, setUrl] = useState<string | null>(src || null)
+  const [hasRetried, setHasRetried] = useState(false)
+
+  useEffect(() => {
+    setHasRetried(false)
+    if (src) {
+      setUrl(src)
+      return
+    }
+
+    let cancelled = false
+    setUrl(null)
+    getSignedUrl(path).then(signedUrl => {
+      if (!cancelled) {
+        setUrl(signedUrl)
+      }
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [path, src])
+
+  const handleError = async () => {
+    if (hasRetried) return
+
+    setHasRetried(true)
+    invalidateSignedUrl(path)
+    const signedUrl = await getSignedUrl(path)
+    if (signedUrl && signedUrl !== url) {
+      setUrl(signedUrl)
+    }
+  }
+
+  const handleLoad = (event: React.SyntheticEvent<HTMLImageElement, Event>) => {
+    setHasRetried(false)
+    onLoad?.(event)
+  }
+
+  if (!url) {
+    return <>{fallback}</>
+  }
+
+  return <Image src={url} alt={alt} onError={handleError} onLoad={handleLoad} {...imageProps} />
+}
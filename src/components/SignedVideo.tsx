@@ -0,0 +1,74 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { getSignedUrl, invalidateSignedUrl } from '@/lib/supabase/photoUrls'
+
+interface SignedVideoProps extends Omit<React.VideoHTMLAttributes<HTMLVideoElement>, 'src' | 'poster' | 'onError'> {
+  path: string // storage path of the clip in the family-photos bucket
+  posterPath?: string | null // storage path of its poster frame
+  poster?: string | null // an already signed poster URL to show meanwhile
+}
+
+/**
+ * <video> for a private clip. Like SignedImage, it signs the URLs itself
+ * and re-signs once per URL if the clip fails to load.
+ */
+export default function SignedVideo({ path, posterPath, poster, onLoadedData, ...videoProps }: SignedVideoProps) {
+  const [url, setUrl] = useState<string | null>(null)
+  const [posterUrl, setPosterUrl] = useState<string | null>(poster || null)
+  const [hasRetried, setHasRetried] = useState(false)
+
+  useEffect(() => {
+    let cancelled = false
+    setHasRetried(false)
+    setUrl(null)
+    setPosterUrl(poster || null)
+
+    getSignedUrl(path).then(signedUrl => {
+      if (!cancelled) {
+        setUrl(signedUrl)
+      }
+    })
+    if (posterPath) {
+      getSignedUrl(posterPath).then(signedUrl => {
+        if (!cancelled && signedUrl) {
+          setPosterUrl(signedUrl)
+        }
+      })
+    }
+
+    return () => {
+      cancelled = true
+    }
+  }, [path, posterPath, poster])
+
+  const handleError = async () => {
+    if (hasRetried) return
+
+    setHasRetried(true)
+    invalidateSignedUrl(path)
+    const signedUrl = await getSignedUrl(path)
+    if (signedUrl && signedUrl !== url) {
+      setUrl(signedUrl)
+    }
+  }
+
+  const handleLoadedData = (event: React.SyntheticEvent<HTMLVideoElement, Event>) => {
+    setHasRetried(false)
+    onLoadedData?.(event)
+  }
+
+  return (
+    <video
+      key={path}
+      src={url || undefined}
+      poster={posterUrl || undefined}
+      controls
+      playsInline
+      preload="metadata"
+      onError={handleError}
+      onLoadedData={handleLoadedData}
+      {...videoProps}
+    />
+  )
+}
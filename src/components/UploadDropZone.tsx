@@ -0,0 +1,150 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { Upload } from 'lucide-react'
+import { enqueueUploads, findDuplicateUploads, type NewUpload } from '@/lib/uploadQueue'
+import { isImageFile } from '@/lib/imageProcessing'
+import { isVideoFile } from '@/lib/videoProcessing'
+import { getFamilySettings } from '@/lib/supabase/settings'
+import { DEFAULT_PROCESSING_PROFILE, type ProcessingProfileId } from '@/lib/processingProfiles'
+
+interface UploadDropZoneProps {
+  userId: string
+}
+
+function getMediaFiles(files: FileList | null | undefined): File[] {
+  return Array.from(files || []).filter(file => isImageFile(file) || isVideoFile(file))
+}
+
+function isEditable(target: EventTarget | null): boolean {
+  return target instanceof HTMLElement &&
+    (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))
+}
+
+/**
+ * Lets photos and videos be dropped or pasted anywhere in the app. They go into the
+ * upload queue, so people can keep browsing while they upload, and are processed
+ * with the family's default profile. Like the upload page, it checks for
+ * photos that are already in the library first.
+ */
+export default function UploadDropZone({ userId }: UploadDropZoneProps) {
+  const [dragging, setDragging] = useState(false)
+  // dragenter/dragleave fire for every child element crossed
+  const dragDepth = useRef(0)
+  const processingProfile = useRef<ProcessingProfileId>(DEFAULT_PROCESSING_PROFILE)
+
+  useEffect(() => {
+    getFamilySettings().then(settings => {
+      processingProfile.current = settings.default_processing_profile
+    })
+  }, [])
+
+  useEffect(() => {
+    const hasFiles = (event: DragEvent) =>
+      Array.from(event.dataTransfer?.types || []).includes('Files')
+
+    const queueFiles = async (files: File[]) => {
+      if (files.length === 0) return
+
+      // Same check as the upload page: photos already in the library are
+      // skipped unless the user asks for them anyway
+      let newUploads: NewUpload[] = files.map(file => ({ file }))
+      try {
+        const { hashes, duplicates } = await findDuplicateUploads(files)
+        newUploads = files.map((file, index) => ({ file, hashes: hashes[index] }))
+
+        if (duplicates.size > 0) {
+          const uploadAnyway = confirm(files.length === 1
+            ? 'This photo is already in the library. Upload it anyway?'
+            : `${duplicates.size} of these ${files.length} photos are already in the library. ` +
+              'Upload them anyway? Cancel skips the duplicates.'
+          )
+          if (!uploadAnyway) {
+            newUploads = newUploads.filter((_, index) => !duplicates.has(index))
+          }
+        }
+      } catch (error) {
+        // Not being able to check shouldn't stop an upload
+        console.error('Error checking for duplicate photos:', error)
+      }
+
+      if (newUploads.length === 0) return
+
+      try {
+        await enqueueUploads(userId, newUploads, {
+          processingProfile: processingProfile.current
+        })
+      } catch (error) {
+        console.error('Error queueing uploads:', error)
+        alert('Failed to add photos to the upload queue. Please try again.')
+      }
+    }
+
+    const handleDragEnter = (event: DragEvent) => {
+      if (!hasFiles(event)) return
+      event.preventDefault()
+      dragDepth.current += 1
+      setDragging(true)
+    }
+
+    const handleDragOver = (event: DragEvent) => {
+      if (!hasFiles(event)) return
+      // Needed for the browser to allow a drop
+      event.preventDefault()
+    }
+
+    const handleDragLeave = (event: DragEvent) => {
+      if (!hasFiles(event)) return
+      dragDepth.current = Math.max(0, dragDepth.current - 1)
+      if (dragDepth.current === 0) {
+        setDragging(false)
+      }
+    }
+
+    const handleDrop = (event: DragEvent) => {
+      if (!hasFiles(event)) return
+      event.preventDefault()
+      dragDepth.current = 0
+      setDragging(false)
+      queueFiles(getMediaFiles(event.dataTransfer?.files))
+    }
+
+    const handlePaste = (event: ClipboardEvent) => {
+      const files = getMediaFiles(event.clipboardData?.files)
+      if (files.length === 0) return
+      // Let text paste into a field as usual
+      if (isEditable(event.target) && event.clipboardData?.types.includes('text/plain')) return
+
+      event.preventDefault()
+      queueFiles(files)
+    }
+
+    window.addEventListener('dragenter', handleDragEnter)
+    window.addEventListener('dragover', handleDragOver)
+    window.addEventListener('dragleave', handleDragLeave)
+    window.addEventListener('drop', handleDrop)
+    window.addEventListener('paste', handlePaste)
+
+    return () => {
+      window.removeEventListener('dragenter', handleDragEnter)
+      window.removeEventListener('dragover', handleDragOver)
+      window.removeEventListener('dragleave', handleDragLeave)
+      window.removeEventListener('drop', handleDrop)
+      window.removeEventListener('paste', handlePaste)
+    }
+  }, [userId])
+
+  if (!dragging) {
+    return null
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-blue-500/20 pointer-events-none">
+      <div className="bg-white rounded-lg shadow-lg border-2 border-dashed border-blue-400 px-10 py-8 text-center">
+        <Upload className="w-10 h-10 text-blue-500 mx-auto mb-3" />
+        <p className="text-lg font-medium text-gray-900">Drop photos and videos to upload</p>
+        <p className="text-sm text-gray-500 mt-1">They&apos;ll upload in the background</p>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,114 @@
+'use client'
+
+import {
+  cancelUpload,
+  retryUpload,
+  clearFinishedUploads,
+  type UploadItem,
+  type UploadStatus
+} from '@/lib/uploadQueue'
+import { CheckCircle, AlertCircle, Loader2, Clock, RotateCcw, X } from 'lucide-react'
+
+interface UploadQueueListProps {
+  uploads: UploadItem[]
+}
+
+const STATUS_LABELS: Record<UploadStatus, string> = {
+  queued: 'Waiting',
+  processing: 'Compressing',
+  uploading: 'Uploading',
+  saving: 'Saving',
+  done: 'Uploaded',
+  failed: 'Failed',
+  cancelled: 'Cancelled'
+}
+
+function getStatusText(upload: UploadItem): string {
+  if (upload.status === 'queued' && upload.retryAt) {
+    const seconds = Math.max(1, Math.ceil((upload.retryAt - Date.now()) / 1000))
+    return `Retrying in ${seconds}s`
+  }
+  return STATUS_LABELS[upload.status]
+}
+
+function StatusIcon({ upload }: { upload: UploadItem }) {
+  switch (upload.status) {
+    case 'done':
+      return <CheckCircle className="w-4 h-4 text-green-500 flex-shrink-0" />
+    case 'failed':
+      return <AlertCircle className="w-4 h-4 text-red-500 flex-shrink-0" />
+    case 'cancelled':
+      return <X className="w-4 h-4 text-gray-400 flex-shrink-0" />
+    case 'queued':
+      return upload.retryAt
+        ? <RotateCcw className="w-4 h-4 text-amber-500 flex-shrink-0" />
+        : <Clock className="w-4 h-4 text-gray-400 flex-shrink-0" />
+    default:
+      return <Loader2 className="w-4 h-4 text-blue-500 animate-spin flex-shrink-0" />
+  }
+}
+
+/**
+ * Per-file status for the upload queue, with cancel and retry buttons
+ */
+export default function UploadQueueList({ uploads }: UploadQueueListProps) {
+  if (uploads.length === 0) {
+    return null
+  }
+
+  const doneCount = uploads.filter(upload => upload.status === 'done').length
+  const failedCount = uploads.filter(upload => upload.status === 'failed').length
+  const hasFinished = uploads.some(upload => upload.status === 'done' || upload.status === 'cancelled')
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <p className="text-sm text-gray-600">
+          {doneCount} of {uploads.length} uploaded
+          {failedCount > 0 && <span className="text-red-600"> · {failedCount} failed</span>}
+        </p>
+        {hasFinished && (
+          <button
+            onClick={() => clearFinishedUploads()}
+            className="text-xs text-gray-500 hover:text-gray-700"
+          >
+            Clear finished
+          </button>
+        )}
+      </div>
+
+      <ul className="divide-y divide-gray-100 max-h-80 overflow-y-auto">
+        {uploads.map(upload => (
+          <li key={upload.id} className="flex items-center py-2 text-sm">
+            <StatusIcon upload={upload} />
+            <div className="ml-2 flex-1 min-w-0">
+              <p className="truncate text-gray-900">{upload.fileName}</p>
+              <p className={`text-xs truncate ${upload.status === 'failed' ? 'text-red-600' : 'text-gray-500'}`}>
+                {getStatusText(upload)}
+                {upload.error && upload.status !== 'done' && ` · ${upload.error}`}
+              </p>
+            </div>
+            {upload.status === 'failed' && (
+              <button
+                onClick={() => retryUpload(upload.id)}
+                className="ml-2 p-1 text-gray-400 hover:text-blue-600"
+                title="Retry"
+              >
+                <RotateCcw className="w-4 h-4" />
+              </button>
+            )}
+            {['queued', 'processing', 'uploading', 'failed'].includes(upload.status) && (
+              <button
+                onClick={() => cancelUpload(upload.id)}
+                className="ml-1 p-1 text-gray-400 hover:text-red-600"
+                title="Cancel"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
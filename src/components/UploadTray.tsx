@@ -0,0 +1,78 @@
+'use client'
+
+import { useState } from 'react'
+import { ChevronDown, ChevronUp, X } from 'lucide-react'
+import UploadQueueList from '@/components/UploadQueueList'
+import { clearFinishedUploads, type UploadItem } from '@/lib/uploadQueue'
+
+interface UploadTrayProps {
+  uploads: UploadItem[]
+}
+
+/**
+ * Compact upload progress in the corner of every page, expandable to the
+ * full per-file list
+ */
+export default function UploadTray({ uploads }: UploadTrayProps) {
+  const [expanded, setExpanded] = useState(false)
+
+  if (uploads.length === 0) {
+    return null
+  }
+
+  const doneCount = uploads.filter(upload => upload.status === 'done').length
+  const failedCount = uploads.filter(upload => upload.status === 'failed').length
+  const cancelledCount = uploads.filter(upload => upload.status === 'cancelled').length
+  const total = uploads.length - cancelledCount
+  const finished = doneCount + failedCount + cancelledCount === uploads.length
+
+  const title = finished
+    ? failedCount > 0
+      ? `${failedCount} upload${failedCount !== 1 ? 's' : ''} failed`
+      : `${doneCount} photo${doneCount !== 1 ? 's' : ''} uploaded`
+    : `Uploading ${doneCount + 1 > total ? total : doneCount + 1} of ${total}`
+
+  return (
+    <div className="fixed bottom-4 right-4 z-40 w-80 max-w-[calc(100vw-2rem)] bg-white rounded-lg shadow-lg border">
+      <div className="flex items-center px-4 py-3">
+        <button
+          onClick={() => setExpanded(!expanded)}
+          className="flex-1 flex items-center justify-between text-left"
+        >
+          <span className={`text-sm font-medium ${failedCount > 0 ? 'text-red-600' : 'text-gray-900'}`}>
+            {title}
+          </span>
+          {expanded ? (
+            <ChevronDown className="w-4 h-4 text-gray-500" />
+          ) : (
+            <ChevronUp className="w-4 h-4 text-gray-500" />
+          )}
+        </button>
+        {finished && failedCount === 0 && (
+          <button
+            onClick={() => clearFinishedUploads()}
+            className="ml-2 p-1 text-gray-400 hover:text-gray-600"
+            title="Dismiss"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      {!finished && total > 0 && (
+        <div className="h-1 bg-gray-100">
+          <div
+            className="h-1 bg-blue-500 transition-all"
+            style={{ width: `${(doneCount / total) * 100}%` }}
+          />
+        </div>
+      )}
+
+      {expanded && (
+        <div className="px-4 pb-3 pt-2 border-t">
+          <UploadQueueList uploads={uploads} />
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,20 @@
+'use client'
+
+import { Play } from 'lucide-react'
+import { formatDuration } from '@/lib/utils'
+
+interface VideoBadgeProps {
+  duration: number | null
+}
+
+/**
+ * Marks a grid tile as a video clip, with its length
+ */
+export default function VideoBadge({ duration }: VideoBadgeProps) {
+  return (
+    <div className="absolute bottom-2 right-2 z-10 inline-flex items-center px-1.5 py-0.5 rounded bg-black/60 text-white text-xs font-medium pointer-events-none">
+      <Play className="w-3 h-3 mr-1 fill-current" />
+      {duration !== null ? formatDuration(duration) : 'Video'}
+    </div>
+  )
+}
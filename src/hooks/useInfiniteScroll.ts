@@ -0,0 +1,42 @@
+'use client'
+
+import { useEffect, useRef } from 'react'
+
+interface UseInfiniteScrollOptions {
+  onLoadMore: () => void
+  hasMore: boolean
+  loading: boolean
+  rootMargin?: string
+}
+
+/**
+ * Calls onLoadMore when the returned sentinel element scrolls into view.
+ * Attach the ref to an element placed after the last item of the list.
+ */
+export function useInfiniteScroll({
+  onLoadMore,
+  hasMore,
+  loading,
+  rootMargin = '600px'
+}: UseInfiniteScrollOptions) {
+  const sentinelRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current
+    if (!sentinel || !hasMore || loading) return
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0]?.isIntersecting) {
+          onLoadMore()
+        }
+      },
+      { rootMargin }
+    )
+
+    observer.observe(sentinel)
+    return () => observer.disconnect()
+  }, [onLoadMore, hasMore, loading, rootMargin])
+
+  return sentinelRef
+}
@@ -0,0 +1,27 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import {
+  getUploads,
+  startUploadQueue,
+  subscribeToUploads,
+  type UploadItem
+} from '@/lib/uploadQueue'
+
+/**
+ * The signed-in user's uploads, kept up to date as the queue works.
+ * Also resumes anything left in the queue from an earlier visit.
+ */
+export function useUploadQueue(userId: string | null | undefined) {
+  const [uploads, setUploads] = useState<UploadItem[]>(getUploads)
+
+  useEffect(() => subscribeToUploads(setUploads), [])
+
+  useEffect(() => {
+    if (userId) {
+      startUploadQueue(userId)
+    }
+  }, [userId])
+
+  return uploads.filter(upload => upload.userId === userId)
+}
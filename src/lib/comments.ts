@@ -1,5 +1,5 @@
 import { createClient } from '@/lib/supabase/client'
-import { type Profile } from '@/lib/supabase/profiles'
+import { PROFILE_COLUMNS, type Profile } from '@/lib/supabase/profiles'
 
 export interface Comment {
   id: string
@@ -48,7 +48,7 @@ export async function loadComments(photoId: string): Promise<Comment[]> {
     // Get profiles for all comment authors
     const { data: profiles } = await supabase
       .from('profiles')
-      .select('*')
+      .select(PROFILE_COLUMNS)
       .in('id', userIds)
     
     // Create a map of profiles by ID
@@ -0,0 +1,108 @@
+import exifr from 'exifr'
+
+/**
+ * Camera metadata read from a photo's EXIF before compression strips it.
+ * Field names match the columns on the photos table.
+ */
+export interface PhotoMetadata {
+  taken_at: string | null
+  camera_make: string | null
+  camera_model: string | null
+  lens_model: string | null
+  width: number | null
+  height: number | null
+  exposure_time: number | null
+  f_number: number | null
+  iso: number | null
+  focal_length: number | null
+  gps_latitude: number | null
+  gps_longitude: number | null
+}
+
+export const EMPTY_PHOTO_METADATA: PhotoMetadata = {
+  taken_at: null,
+  camera_make: null,
+  camera_model: null,
+  lens_model: null,
+  width: null,
+  height: null,
+  exposure_time: null,
+  f_number: null,
+  iso: null,
+  focal_length: null,
+  gps_latitude: null,
+  gps_longitude: null
+}
+
+const toNumber = (value: unknown): number | null =>
+  typeof value === 'number' && Number.isFinite(value) ? value : null
+
+const toText = (value: unknown): string | null =>
+  typeof value === 'string' && value.trim() ? value.trim() : null
+
+/**
+ * Read EXIF metadata from an image file. Location is only read when
+ * includeLocation is set, so it never leaves the device by accident.
+ * Files without EXIF (screenshots, PNGs) just give empty metadata.
+ */
+export async function extractPhotoMetadata(
+  file: File,
+  { includeLocation = false }: { includeLocation?: boolean } = {}
+): Promise<PhotoMetadata> {
+  try {
+    const exif = await exifr.parse(file, {
+      tiff: true,
+      exif: true,
+      gps: includeLocation,
+      ifd1: false,
+      interop: false,
+      xmp: false,
+      icc: false,
+      iptc: false,
+      translateValues: false
+    })
+
+    if (!exif) {
+      return EMPTY_PHOTO_METADATA
+    }
+
+    const takenAt = exif.DateTimeOriginal || exif.CreateDate || exif.DateTime
+    let width = toNumber(exif.ExifImageWidth) ?? toNumber(exif.ImageWidth)
+    let height = toNumber(exif.ExifImageHeight) ?? toNumber(exif.ImageHeight)
+
+    // Orientations 5-8 are rotated a quarter turn, so the stored size is sideways
+    if (exif.Orientation >= 5 && exif.Orientation <= 8) {
+      [width, height] = [height, width]
+    }
+
+    return {
+      taken_at: takenAt instanceof Date && !isNaN(takenAt.getTime())
+        ? takenAt.toISOString()
+        : null,
+      camera_make: toText(exif.Make),
+      camera_model: toText(exif.Model),
+      lens_model: toText(exif.LensModel),
+      width,
+      height,
+      exposure_time: toNumber(exif.ExposureTime),
+      f_number: toNumber(exif.FNumber),
+      iso: toNumber(exif.ISO),
+      focal_length: toNumber(exif.FocalLength),
+      gps_latitude: includeLocation ? toNumber(exif.latitude) : null,
+      gps_longitude: includeLocation ? toNumber(exif.longitude) : null
+    }
+  } catch (error) {
+    console.error('Error reading EXIF metadata:', error)
+    return EMPTY_PHOTO_METADATA
+  }
+}
+
+/**
+ * Format an exposure time in seconds the way cameras show it (1/250s, 2s)
+ */
+export function formatExposureTime(seconds: number): string {
+  if (seconds >= 1) {
+    return `${Number(seconds.toFixed(1))}s`
+  }
+  return `1/${Math.round(1 / seconds)}s`
+}
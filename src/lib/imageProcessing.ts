@@ -0,0 +1,354 @@
+import imageCompression from 'browser-image-compression'
+import { type Photo, type PhotoVariant } from '@/lib/supabase/photos'
+import {
+  getProcessingProfile,
+  resolveOutputFormat,
+  DEFAULT_PROCESSING_PROFILE,
+  type ImageOutputFormat,
+  type ProcessingProfile
+} from '@/lib/processingProfiles'
+
+/**
+ * Size limits for the smaller stored copies of a photo. Grid tiles load the
+ * thumbnail, phones load the medium copy and larger screens the full one,
+ * whose limits come from the processing profile.
+ */
+export const IMAGE_VARIANT_SIZES: Record<Exclude<PhotoVariant, 'full'>, { maxWidthOrHeight: number; maxSizeMB: number }> = {
+  thumbnail: { maxWidthOrHeight: 400, maxSizeMB: 0.1 },
+  medium: { maxWidthOrHeight: 1080, maxSizeMB: 0.4 }
+}
+
+const HEIC_TYPES = ['image/heic', 'image/heif', 'image/heic-sequence', 'image/heif-sequence']
+
+/**
+ * Whether a file is HEIC/HEIF, the format iPhones save photos in. Some
+ * browsers and OSes leave the type empty, so the extension counts too.
+ */
+export const isHeicFile = (file: File): boolean => {
+  return HEIC_TYPES.includes(file.type.toLowerCase()) || /\.hei[cf]$/i.test(file.name)
+}
+
+/**
+ * Whether a file is something the upload pipeline can handle
+ */
+export const isImageFile = (file: File): boolean => {
+  return file.type.startsWith('image/') || isHeicFile(file)
+}
+
+// The same file is converted once, even when hashed and then uploaded
+const heicConversions = new WeakMap<File, Promise<File>>()
+
+/**
+ * Decode a HEIC photo to a JPEG the browser can draw. Most browsers can't
+ * load HEIC into an <img>, so this uses a WebAssembly build of libheif,
+ * loaded only when it's needed. The decoder applies the photo's rotation,
+ * so the JPEG comes out upright.
+ */
+export const convertHeicToJpeg = async (file: File): Promise<File> => {
+  let conversion = heicConversions.get(file)
+  if (!conversion) {
+    conversion = (async () => {
+      const { heicTo } = await import('heic-to/next')
+      const blob = await heicTo({ blob: file, type: 'image/jpeg', quality: 0.92 })
+      return new File([blob], file.name.replace(/\.hei[cf]$/i, '.jpg'), {
+        type: 'image/jpeg',
+        lastModified: file.lastModified
+      })
+    })()
+    heicConversions.set(file, conversion)
+    // Let a failed conversion be tried again
+    conversion.catch(() => heicConversions.delete(file))
+  }
+  return conversion
+}
+
+/**
+ * A version of the file the browser can decode: HEIC is converted to
+ * JPEG, anything else is returned as is
+ */
+export const toDecodableImage = async (file: File): Promise<File> => {
+  return isHeicFile(file) ? convertHeicToJpeg(file) : file
+}
+
+// Helper function to read EXIF orientation
+const getOrientation = (file: File, callback: (orientation: number) => void) => {
+  const reader = new FileReader()
+  reader.onload = (e) => {
+    const view = new DataView(e.target?.result as ArrayBuffer)
+    if (view.getUint16(0, false) !== 0xFFD8) {
+      callback(1) // Not a JPEG
+      return
+    }
+
+    const length = view.byteLength
+    let offset = 2
+
+    while (offset < length) {
+      if (view.getUint16(offset + 2, false) <= 8) {
+        callback(1)
+        return
+      }
+      const marker = view.getUint16(offset, false)
+      offset += 2
+      if (marker === 0xFFE1) {
+        const little = view.getUint16(offset + 8, false) === 0x4949
+        offset += view.getUint16(offset, false)
+        if (view.getUint32(offset + 4, little) !== 0x2A) {
+          callback(1)
+          return
+        }
+        const firstIFDOffset = view.getUint32(offset + 8, little)
+        if (firstIFDOffset < 0x00000008) {
+          callback(1)
+          return
+        }
+        offset += firstIFDOffset
+        const tags = view.getUint16(offset, little)
+        offset += 2
+        for (let i = 0; i < tags; i++) {
+          if (view.getUint16(offset + (i * 12), little) === 0x0112) {
+            callback(view.getUint16(offset + (i * 12) + 8, little))
+            return
+          }
+        }
+      } else if ((marker & 0xFF00) !== 0xFF00) {
+        break
+      } else {
+        offset += view.getUint16(offset, false)
+      }
+    }
+    callback(1) // Default orientation
+  }
+  reader.readAsArrayBuffer(file)
+}
+
+// Helper function to get rotated dimensions
+const getRotatedDimensions = (width: number, height: number, orientation: number) => {
+  if (orientation >= 5 && orientation <= 8) {
+    return { width: height, height: width }
+  }
+  return { width, height }
+}
+
+/**
+ * Redraw an image with its EXIF orientation applied, so it displays the
+ * right way up once the EXIF is stripped
+ */
+export const correctImageOrientation = async (file: File): Promise<File> => {
+  return new Promise((resolve, reject) => {
+    const canvas = document.createElement('canvas')
+    const ctx = canvas.getContext('2d')!
+    const img = new Image()
+
+    img.onload = () => {
+      // Get EXIF orientation
+      getOrientation(file, (orientation) => {
+        const { width, height } = getRotatedDimensions(img.width, img.height, orientation)
+
+        canvas.width = width
+        canvas.height = height
+
+        // Apply rotation based on orientation
+        switch (orientation) {
+          case 2:
+            ctx.transform(-1, 0, 0, 1, width, 0)
+            break
+          case 3:
+            ctx.transform(-1, 0, 0, -1, width, height)
+            break
+          case 4:
+            ctx.transform(1, 0, 0, -1, 0, height)
+            break
+          case 5:
+            ctx.transform(0, 1, 1, 0, 0, 0)
+            break
+          case 6:
+            ctx.transform(0, 1, -1, 0, height, 0)
+            break
+          case 7:
+            ctx.transform(0, -1, -1, 0, height, width)
+            break
+          case 8:
+            ctx.transform(0, -1, 1, 0, 0, width)
+            break
+          default:
+            // No rotation needed
+            break
+        }
+
+        ctx.drawImage(img, 0, 0)
+
+        canvas.toBlob((blob) => {
+          if (blob) {
+            const correctedFile = new File([blob], file.name, {
+              type: 'image/jpeg',
+              lastModified: Date.now()
+            })
+            resolve(correctedFile)
+          } else {
+            resolve(file) // Fallback to original
+          }
+        }, 'image/jpeg', 0.9)
+      })
+    }
+
+    img.onerror = () => {
+      reject(new Error(`Couldn't read ${file.name}. This browser may not support its format.`))
+    }
+
+    img.src = URL.createObjectURL(file)
+  })
+}
+
+/**
+ * Shrink an already upright image to one of the stored sizes
+ */
+const resizeToVariant = async (
+  file: File,
+  variant: PhotoVariant,
+  profile: ProcessingProfile,
+  format: ImageOutputFormat
+): Promise<File> => {
+  const options = {
+    ...(variant === 'full'
+      ? { maxWidthOrHeight: profile.maxWidthOrHeight, maxSizeMB: profile.maxSizeMB }
+      : IMAGE_VARIANT_SIZES[variant]),
+    useWebWorker: true,
+    fileType: format,
+    initialQuality: profile.quality,
+    // Don't preserve EXIF since we've already corrected orientation
+    preserveExif: false
+  }
+
+  return imageCompression(file, options)
+}
+
+/**
+ * Rotate and compress a photo into every stored size, using a processing
+ * profile's limits, quality and format. The smaller copies are made from
+ * the full one so each step starts from fewer pixels.
+ */
+export const createImageVariants = async (
+  file: File,
+  profile: ProcessingProfile = getProcessingProfile(DEFAULT_PROCESSING_PROFILE),
+  format: ImageOutputFormat = resolveOutputFormat(profile)
+): Promise<Record<PhotoVariant, File>> => {
+  try {
+    // iPhone HEIC photos need decoding before they can be drawn
+    const decodableFile = await toDecodableImage(file)
+
+    // First, let's correct the orientation manually
+    const correctedFile = await correctImageOrientation(decodableFile)
+
+    const full = await resizeToVariant(correctedFile, 'full', profile, format)
+    const medium = await resizeToVariant(full, 'medium', profile, format)
+    const thumbnail = await resizeToVariant(medium, 'thumbnail', profile, format)
+
+    return { full, medium, thumbnail }
+  } catch (error) {
+    console.error('Error processing image:', error)
+    throw error
+  }
+}
+
+// Longest side of the inline preview shown while a photo loads
+const PLACEHOLDER_SIZE = 16
+
+/**
+ * Make a tiny JPEG data URL of an image (well under 1KB) to show,
+ * blurred, while the real image loads
+ */
+export const createPlaceholder = async (file: File): Promise<string | null> => {
+  return new Promise((resolve) => {
+    const img = new Image()
+    const objectUrl = URL.createObjectURL(file)
+
+    img.onload = () => {
+      const scale = PLACEHOLDER_SIZE / Math.max(img.width, img.height)
+      const canvas = document.createElement('canvas')
+      canvas.width = Math.max(1, Math.round(img.width * scale))
+      canvas.height = Math.max(1, Math.round(img.height * scale))
+      canvas.getContext('2d')!.drawImage(img, 0, 0, canvas.width, canvas.height)
+
+      URL.revokeObjectURL(objectUrl)
+      resolve(canvas.toDataURL('image/jpeg', 0.7))
+    }
+
+    img.onerror = () => {
+      URL.revokeObjectURL(objectUrl)
+      resolve(null) // Photos upload fine without a preview
+    }
+
+    img.src = objectUrl
+  })
+}
+
+export type PhotoHashes = Pick<Photo, 'content_hash' | 'perceptual_hash'>
+
+/**
+ * SHA-256 of a file's bytes, as hex. Identical copies of a photo share it.
+ */
+export const createContentHash = async (file: Blob): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer())
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('')
+}
+
+/**
+ * 64-bit difference hash of an image, as 16 hex characters. Each bit says
+ * whether a pixel is brighter than its right-hand neighbour in a 9x8
+ * greyscale copy, so re-compressed or resized copies of a photo land
+ * within a few bits of each other.
+ */
+export const createPerceptualHash = async (file: Blob): Promise<string | null> => {
+  return new Promise((resolve) => {
+    const img = new Image()
+    const objectUrl = URL.createObjectURL(file)
+
+    img.onload = () => {
+      const canvas = document.createElement('canvas')
+      canvas.width = 9
+      canvas.height = 8
+      const ctx = canvas.getContext('2d')!
+      ctx.imageSmoothingQuality = 'high'
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height)
+      URL.revokeObjectURL(objectUrl)
+
+      const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height)
+      const brightness = (x: number, y: number) => {
+        const i = (y * canvas.width + x) * 4
+        return data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114
+      }
+
+      let hash = ''
+      for (let y = 0; y < 8; y++) {
+        let bits = 0
+        for (let x = 0; x < 8; x++) {
+          bits = (bits << 1) | (brightness(x, y) > brightness(x + 1, y) ? 1 : 0)
+        }
+        hash += bits.toString(16).padStart(2, '0')
+      }
+      resolve(hash)
+    }
+
+    img.onerror = () => {
+      URL.revokeObjectURL(objectUrl)
+      resolve(null) // Exact matches still work without it
+    }
+
+    img.src = objectUrl
+  })
+}
+
+/**
+ * Content hash of the original file and perceptual hash of its image,
+ * used to spot photos that have already been uploaded
+ */
+export const createPhotoHashes = async (file: File): Promise<PhotoHashes> => {
+  const [contentHash, perceptualHash] = await Promise.all([
+    createContentHash(file),
+    toDecodableImage(file).then(createPerceptualHash, () => null)
+  ])
+  return { content_hash: contentHash, perceptual_hash: perceptualHash }
+}
@@ -0,0 +1,94 @@
+/**
+ * Filters for the home gallery. They live in the URL query string so a
+ * filtered view can be shared with the rest of the family.
+ */
+export interface PhotoFilters {
+  uploader: string | null // user ID
+  from: string | null // YYYY-MM-DD, inclusive
+  to: string | null // YYYY-MM-DD, inclusive
+  reactedByMe: boolean
+  hasComments: boolean
+  notInAlbum: boolean
+}
+
+export const EMPTY_PHOTO_FILTERS: PhotoFilters = {
+  uploader: null,
+  from: null,
+  to: null,
+  reactedByMe: false,
+  hasComments: false,
+  notInAlbum: false
+}
+
+// Query string keys for each filter
+const FILTER_PARAMS = {
+  uploader: 'uploader',
+  from: 'from',
+  to: 'to',
+  reactedByMe: 'reacted',
+  hasComments: 'commented',
+  notInAlbum: 'unfiled'
+} as const
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+const toDate = (value: string | null): string | null =>
+  value && DATE_PATTERN.test(value) ? value : null
+
+const toUuid = (value: string | null): string | null =>
+  value && UUID_PATTERN.test(value) ? value : null
+
+/**
+ * Whether a value is a UUID, e.g. a user ID from the query string
+ */
+export function isUuid(value: string): boolean {
+  return UUID_PATTERN.test(value)
+}
+
+/**
+ * Local midnight at the start of a YYYY-MM-DD date, optionally the day
+ * after. Date filters are turned into timestamps with this in the browser,
+ * so a range covers the same photos in the gallery and in search.
+ */
+export function startOfDay(date: string, nextDay = false): string {
+  const [year, month, day] = date.split('-').map(Number)
+  return new Date(year, month - 1, nextDay ? day + 1 : day).toISOString()
+}
+
+/**
+ * Read gallery filters from a query string, ignoring anything malformed
+ */
+export function parsePhotoFilters(params: URLSearchParams): PhotoFilters {
+  return {
+    uploader: toUuid(params.get(FILTER_PARAMS.uploader)),
+    from: toDate(params.get(FILTER_PARAMS.from)),
+    to: toDate(params.get(FILTER_PARAMS.to)),
+    reactedByMe: params.get(FILTER_PARAMS.reactedByMe) === '1',
+    hasComments: params.get(FILTER_PARAMS.hasComments) === '1',
+    notInAlbum: params.get(FILTER_PARAMS.notInAlbum) === '1'
+  }
+}
+
+/**
+ * Write gallery filters to a query string, leaving out the ones not in use
+ */
+export function photoFiltersToParams(filters: PhotoFilters): URLSearchParams {
+  const params = new URLSearchParams()
+
+  if (filters.uploader) params.set(FILTER_PARAMS.uploader, filters.uploader)
+  if (filters.from) params.set(FILTER_PARAMS.from, filters.from)
+  if (filters.to) params.set(FILTER_PARAMS.to, filters.to)
+  if (filters.reactedByMe) params.set(FILTER_PARAMS.reactedByMe, '1')
+  if (filters.hasComments) params.set(FILTER_PARAMS.hasComments, '1')
+  if (filters.notInAlbum) params.set(FILTER_PARAMS.notInAlbum, '1')
+
+  return params
+}
+
+/**
+ * Whether any filter is narrowing the gallery
+ */
+export function hasActivePhotoFilters(filters: PhotoFilters): boolean {
+  return photoFiltersToParams(filters).toString() !== ''
+}
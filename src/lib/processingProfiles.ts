@@ -0,0 +1,126 @@
+/**
+ * Named settings for how uploads are compressed. The family picks a
+ * default and the uploader can change it per batch; each photo records
+ * the profile it was made with and the format it was saved in.
+ */
+
+export type ProcessingProfileId = 'data_saver' | 'standard' | 'high_quality' | 'webp' | 'avif'
+
+export type ImageOutputFormat = 'image/jpeg' | 'image/webp' | 'image/avif'
+
+export interface ProcessingProfile {
+  id: ProcessingProfileId
+  name: string
+  description: string
+  // Limits for the full size; thumbnails and medium copies are fixed sizes
+  maxWidthOrHeight: number
+  maxSizeMB: number
+  quality: number // 0..1
+  format: ImageOutputFormat
+}
+
+export const PROCESSING_PROFILES: Record<ProcessingProfileId, ProcessingProfile> = {
+  data_saver: {
+    id: 'data_saver',
+    name: 'Data saver',
+    description: 'Up to 1280px and about 400KB. Quickest to upload on a phone.',
+    maxWidthOrHeight: 1280,
+    maxSizeMB: 0.4,
+    quality: 0.7,
+    format: 'image/jpeg'
+  },
+  standard: {
+    id: 'standard',
+    name: 'Standard',
+    description: 'Up to 1920px and about 1MB. Good for viewing on any screen.',
+    maxWidthOrHeight: 1920,
+    maxSizeMB: 1,
+    quality: 0.8,
+    format: 'image/jpeg'
+  },
+  high_quality: {
+    id: 'high_quality',
+    name: 'High quality',
+    description: 'Up to 3840px and about 4MB. For photos worth zooming into.',
+    maxWidthOrHeight: 3840,
+    maxSizeMB: 4,
+    quality: 0.9,
+    format: 'image/jpeg'
+  },
+  webp: {
+    id: 'webp',
+    name: 'Standard (WebP)',
+    description: 'Standard size in WebP, which is usually a third smaller than JPEG.',
+    maxWidthOrHeight: 1920,
+    maxSizeMB: 0.7,
+    quality: 0.8,
+    format: 'image/webp'
+  },
+  avif: {
+    id: 'avif',
+    name: 'Standard (AVIF)',
+    description: 'Standard size in AVIF, smaller still. Browsers that can\'t make AVIF use WebP or JPEG.',
+    maxWidthOrHeight: 1920,
+    maxSizeMB: 0.5,
+    quality: 0.7,
+    format: 'image/avif'
+  }
+}
+
+export const DEFAULT_PROCESSING_PROFILE: ProcessingProfileId = 'standard'
+
+const FILE_EXTENSIONS: Record<ImageOutputFormat, string> = {
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/avif': 'avif'
+}
+
+const FORMAT_NAMES: Record<ImageOutputFormat, string> = {
+  'image/jpeg': 'JPEG',
+  'image/webp': 'WebP',
+  'image/avif': 'AVIF'
+}
+
+/**
+ * Look up a profile, falling back to the standard one for unknown IDs
+ * (e.g. a profile saved by a newer version of the app)
+ */
+export function getProcessingProfile(id: string | null | undefined): ProcessingProfile {
+  return PROCESSING_PROFILES[id as ProcessingProfileId] || PROCESSING_PROFILES[DEFAULT_PROCESSING_PROFILE]
+}
+
+// Whether a stored format is one the app knows how to name
+const isOutputFormat = (format: string | null): format is ImageOutputFormat =>
+  format !== null && Object.prototype.hasOwnProperty.call(FORMAT_NAMES, format)
+
+export function getFormatExtension(format: ImageOutputFormat): string {
+  return FILE_EXTENSIONS[format]
+}
+
+/**
+ * How a photo was processed, for display: the profile's name, plus the
+ * format it was saved in when that isn't the profile's own
+ */
+export function describeProcessing(profileId: string, outputFormat: string | null): string {
+  const profile = getProcessingProfile(profileId)
+  return isOutputFormat(outputFormat) && outputFormat !== profile.format
+    ? `${profile.name}, saved as ${FORMAT_NAMES[outputFormat]}`
+    : profile.name
+}
+
+// Canvas encoders quietly fall back to PNG for formats they don't support
+const canEncode = (format: ImageOutputFormat): boolean => {
+  const canvas = document.createElement('canvas')
+  canvas.width = 1
+  canvas.height = 1
+  return canvas.toDataURL(format).startsWith(`data:${format}`)
+}
+
+/**
+ * The format a profile will actually produce in this browser: its own if
+ * the browser can encode it, otherwise WebP, otherwise JPEG
+ */
+export function resolveOutputFormat(profile: ProcessingProfile): ImageOutputFormat {
+  const candidates: ImageOutputFormat[] = [profile.format, 'image/webp', 'image/jpeg']
+  return candidates.find(format => format === 'image/jpeg' || canEncode(format))!
+}
@@ -0,0 +1,18 @@
+import { createClient } from '@supabase/supabase-js'
+
+/**
+ * Service-role client for trusted server-side jobs. It bypasses RLS,
+ * so never import it from client components.
+ */
+export function createAdminClient() {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    {
+      auth: {
+        persistSession: false,
+        autoRefreshToken: false
+      }
+    }
+  )
+}
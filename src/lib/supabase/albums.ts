@@ -1,5 +1,6 @@
 import { createClient } from './client'
-import { type Profile } from './profiles'
+import { PROFILE_COLUMNS, type Profile } from './profiles'
+import { getPhotoVariantPath, PHOTO_COLUMNS, type Photo } from './photos'
 
 export interface Album {
   id: string
@@ -9,12 +10,17 @@ export interface Album {
   share_token: string
   is_public: boolean
   expires_at: string | null
+  cover_photo_id: string | null // null means the first photo is the cover
   created_at: string
   updated_at: string
   photo_count?: number
+  cover_path?: string | null // thumbnail of the cover photo
   creator?: Profile | null
 }
 
+// The columns of an Album, leaving out the full-text search_vector
+export const ALBUM_COLUMNS = 'id, name, description, created_by, share_token, is_public, expires_at, cover_photo_id, created_at, updated_at'
+
 export interface AlbumPhoto {
   id: string
   album_id: string
@@ -22,15 +28,26 @@ export interface AlbumPhoto {
   added_by: string
   position: number
   added_at: string
-  photo?: {
-    id: string
-    filename: string
-    original_filename: string
-    caption: string | null
-    file_path: string
-    uploaded_at: string
-    uploaded_by: string
-  } // Will be filled with photo data when needed
+  photo?: Photo // Will be filled with photo data when needed
+}
+
+// Where a photo sits in an album, as returned after adding or reordering
+export interface AlbumPhotoPosition {
+  id: string // album_photos ID
+  photo_id: string
+  position: number
+}
+
+export interface AppendedAlbumPhotoPosition extends AlbumPhotoPosition {
+  added: boolean // false when the photo was already in the album
+}
+
+// An album photo with the storage paths of its photo, for finding covers.
+// photos is a to-one embed, so it's a single object.
+interface AlbumCoverRow {
+  album_id: string
+  photo_id: string
+  photos: Pick<Photo, 'file_path' | 'thumbnail_path' | 'medium_path'>
 }
 
 export interface CreateAlbumData {
@@ -44,6 +61,7 @@ export interface UpdateAlbumData {
   description?: string
   is_public?: boolean
   expires_at?: string | null
+  cover_photo_id?: string | null
 }
 
 /**
@@ -65,7 +83,7 @@ export async function createAlbum(data: CreateAlbumData): Promise<Album> {
       description: data.description?.trim() || null,
       created_by: user.id
     })
-    .select('*')
+    .select(ALBUM_COLUMNS)
     .single()
 
   if (albumError) {
@@ -90,7 +108,7 @@ export async function getAlbums(): Promise<Album[]> {
   // Get albums first
   const { data: albums, error } = await supabase
     .from('albums')
-    .select('*')
+    .select(ALBUM_COLUMNS)
     .order('created_at', { ascending: false })
 
   if (error) {
@@ -108,30 +126,39 @@ export async function getAlbums(): Promise<Album[]> {
   // Get profiles for all creators
   const { data: profiles } = await supabase
     .from('profiles')
-    .select('*')
+    .select(PROFILE_COLUMNS)
     .in('id', creatorIds)
   
   // Create a map of profiles by ID
   const profileMap = new Map(profiles?.map(profile => [profile.id, profile]) || [])
 
-  // Get photo counts for all albums
+  // Get photo counts and covers for all albums
   const albumIds = albums.map(album => album.id)
   const { data: photoCounts } = await supabase
     .from('album_photos')
-    .select('album_id')
+    .select('album_id, photo_id, photos!inner(file_path, thumbnail_path, medium_path)')
     .in('album_id', albumIds)
+    .is('photos.deleted_at', null) // Leave out trashed photos
+    .order('position', { ascending: true })
+    .overrideTypes<AlbumCoverRow[], { merge: false }>()
 
-  // Count photos per album
+  // Count photos per album, and find each cover: the chosen photo, or else the first
+  const chosenCoverMap = new Map(albums.map(album => [album.id, album.cover_photo_id]))
   const photoCountMap = new Map()
+  const coverPathMap = new Map<string, string>()
   photoCounts?.forEach(item => {
     const count = photoCountMap.get(item.album_id) || 0
     photoCountMap.set(item.album_id, count + 1)
+    if (item.photo_id === chosenCoverMap.get(item.album_id) || !coverPathMap.has(item.album_id)) {
+      coverPathMap.set(item.album_id, getPhotoVariantPath(item.photos, 'thumbnail'))
+    }
   })
 
-  // Transform the data to include photo count and creator
+  // Transform the data to include photo count, cover and creator
   return albums.map(album => ({
     ...album,
     photo_count: photoCountMap.get(album.id) || 0,
+    cover_path: coverPathMap.get(album.id) || null,
     creator: profileMap.get(album.created_by) || null
   }))
 }
@@ -144,7 +171,7 @@ export async function getAlbum(id: string): Promise<Album | null> {
   
   const { data: album, error } = await supabase
     .from('albums')
-    .select('*')
+    .select(ALBUM_COLUMNS)
     .eq('id', id)
     .single()
 
@@ -159,7 +186,7 @@ export async function getAlbum(id: string): Promise<Album | null> {
   // Get creator profile
   const { data: creator } = await supabase
     .from('profiles')
-    .select('*')
+    .select(PROFILE_COLUMNS)
     .eq('id', album.created_by)
     .single()
 
@@ -177,7 +204,7 @@ export async function getAlbumByToken(token: string): Promise<Album | null> {
   
   const { data: album, error } = await supabase
     .from('albums')
-    .select('*')
+    .select(ALBUM_COLUMNS)
     .eq('share_token', token)
     .eq('is_public', true)
     .single()
@@ -198,7 +225,7 @@ export async function getAlbumByToken(token: string): Promise<Album | null> {
   // Get creator profile
   const { data: creator } = await supabase
     .from('profiles')
-    .select('*')
+    .select(PROFILE_COLUMNS)
     .eq('id', album.created_by)
     .single()
 
@@ -218,7 +245,7 @@ export async function updateAlbum(id: string, updates: UpdateAlbumData): Promise
     .from('albums')
     .update(updates)
     .eq('id', id)
-    .select('*')
+    .select(ALBUM_COLUMNS)
     .single()
 
   if (error) {
@@ -256,102 +283,97 @@ export async function getAlbumPhotos(albumId: string): Promise<AlbumPhoto[]> {
     .from('album_photos')
     .select(`
       *,
-      photo:photos(*)
+      photo:photos(${PHOTO_COLUMNS})
     `)
     .eq('album_id', albumId)
     .order('position', { ascending: true })
+    .overrideTypes<AlbumPhoto[], { merge: false }>()
 
   if (error) {
     console.error('Error fetching album photos:', error)
     throw new Error(`Failed to fetch album photos: ${error.message}`)
   }
 
-  return albumPhotos || []
+  // Trashed photos stay linked until purged but shouldn't show in albums
+  return (albumPhotos || []).filter(albumPhoto => !albumPhoto.photo?.deleted_at)
 }
 
 /**
- * Add photos to an album
+ * The album photo used as an album's cover: the chosen one if it's still
+ * in the album, otherwise the first
  */
-export async function addPhotosToAlbum(albumId: string, photoIds: string[]): Promise<void> {
-  const supabase = createClient()
-  
-  const { data: { user } } = await supabase.auth.getUser()
-  if (!user) {
-    throw new Error('User must be authenticated to add photos to albums')
-  }
-
-  // Get the current highest position in the album
-  const { data: lastPhoto } = await supabase
-    .from('album_photos')
-    .select('position')
-    .eq('album_id', albumId)
-    .order('position', { ascending: false })
-    .limit(1)
-    .single()
-
-  const startPosition = (lastPhoto?.position || 0) + 1
+export function getAlbumCover<T extends AlbumPhoto>(
+  album: Pick<Album, 'cover_photo_id'>,
+  albumPhotos: T[]
+): T | null {
+  const withPhotos = albumPhotos.filter(albumPhoto => albumPhoto.photo)
+  return withPhotos.find(albumPhoto => albumPhoto.photo_id === album.cover_photo_id) || withPhotos[0] || null
+}
 
-  // Create album photo entries
-  const albumPhotoEntries = photoIds.map((photoId, index) => ({
-    album_id: albumId,
-    photo_id: photoId,
-    added_by: user.id,
-    position: startPosition + index
-  }))
+/**
+ * Add photos to the end of an album, in the order given. Photos already in
+ * the album are skipped and keep their place. Returns the album's order,
+ * marking the photos this call added.
+ */
+export async function addPhotosToAlbum(
+  albumId: string,
+  photoIds: string[]
+): Promise<AppendedAlbumPhotoPosition[]> {
+  const supabase = createClient()
 
-  const { error } = await supabase
-    .from('album_photos')
-    .insert(albumPhotoEntries)
+  const { data, error } = await supabase.rpc('append_album_photos', {
+    p_album_id: albumId,
+    p_photo_ids: photoIds
+  })
 
   if (error) {
     console.error('Error adding photos to album:', error)
     throw new Error(`Failed to add photos to album: ${error.message}`)
   }
+
+  return data || []
 }
 
 /**
- * Remove a photo from an album
+ * Remove photos from an album. The photos themselves stay in the library.
  */
-export async function removePhotoFromAlbum(albumId: string, photoId: string): Promise<void> {
+export async function removePhotosFromAlbum(albumId: string, photoIds: string[]): Promise<void> {
   const supabase = createClient()
   
   const { error } = await supabase
     .from('album_photos')
     .delete()
     .eq('album_id', albumId)
-    .eq('photo_id', photoId)
+    .in('photo_id', photoIds)
 
   if (error) {
-    console.error('Error removing photo from album:', error)
-    throw new Error(`Failed to remove photo from album: ${error.message}`)
+    console.error('Error removing photos from album:', error)
+    throw new Error(`Failed to remove photos from album: ${error.message}`)
   }
 }
 
 /**
- * Reorder photos in an album
+ * Put an album's photos in a new order, given their album_photos IDs.
+ * Saved in one go, so a failure leaves the old order untouched. Returns
+ * the album's order, which includes anything added in the meantime.
  */
 export async function reorderAlbumPhotos(
-  albumId: string, 
-  photoOrders: { id: string; position: number }[]
-): Promise<void> {
+  albumId: string,
+  albumPhotoIds: string[]
+): Promise<AlbumPhotoPosition[]> {
   const supabase = createClient()
-  
-  // Update each photo's position
-  const updates = photoOrders.map(({ id, position }) =>
-    supabase
-      .from('album_photos')
-      .update({ position })
-      .eq('id', id)
-  )
-
-  const results = await Promise.all(updates)
-  
-  // Check if any updates failed
-  const errors = results.filter(result => result.error)
-  if (errors.length > 0) {
-    console.error('Error reordering album photos:', errors)
-    throw new Error('Failed to reorder some photos')
+
+  const { data, error } = await supabase.rpc('reorder_album_photos', {
+    p_album_id: albumId,
+    p_album_photo_ids: albumPhotoIds
+  })
+
+  if (error) {
+    console.error('Error reordering album photos:', error)
+    throw new Error(`Failed to reorder album photos: ${error.message}`)
   }
+
+  return data || []
 }
 
 /**
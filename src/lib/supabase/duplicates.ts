@@ -0,0 +1,217 @@
+import { createClient } from './client'
+import { getSignedUrl } from './photoUrls'
+import { withUrlsAndProfiles, getPhotoVariantPath, PHOTO_COLUMNS, type Photo, type PhotoWithProfile } from './photos'
+import { createPerceptualHash } from '@/lib/imageProcessing'
+
+export interface DuplicatePhoto extends PhotoWithProfile {
+  comment_count: number
+  reaction_count: number
+  matches: string[] // IDs of the photos it directly matches, the ones that can be merged into it
+}
+
+/**
+ * A group of photos that all look the same, oldest upload first
+ */
+export interface DuplicateCluster {
+  photos: DuplicatePhoto[]
+}
+
+/**
+ * Group photos into clusters of look-alikes. Pairs are joined transitively,
+ * so if A matches B and B matches C all three end up together.
+ */
+function clusterPairs(pairs: { photo_id: string; duplicate_id: string }[]): string[][] {
+  const parent = new Map<string, string>()
+
+  const find = (id: string): string => {
+    const root = parent.get(id)
+    if (!root || root === id) {
+      parent.set(id, id)
+      return id
+    }
+    const top = find(root)
+    parent.set(id, top)
+    return top
+  }
+
+  pairs.forEach(pair => {
+    parent.set(find(pair.photo_id), find(pair.duplicate_id))
+  })
+
+  const clusters = new Map<string, string[]>()
+  parent.forEach((_, id) => {
+    const root = find(id)
+    clusters.set(root, [...(clusters.get(root) || []), id])
+  })
+
+  return Array.from(clusters.values())
+}
+
+/**
+ * Get every cluster of duplicate photos in the library, largest first
+ */
+export async function getDuplicateClusters(): Promise<DuplicateCluster[]> {
+  const supabase = createClient()
+
+  const { data: pairs, error } = await supabase.rpc('get_duplicate_photo_pairs')
+
+  if (error) {
+    console.error('Error finding duplicate photos:', error)
+    throw new Error(`Failed to find duplicate photos: ${error.message}`)
+  }
+
+  const clusterIds = clusterPairs(pairs || [])
+  const photoIds = clusterIds.flat()
+  if (photoIds.length === 0) {
+    return []
+  }
+
+  const [
+    { data: photos, error: photosError },
+    { data: comments, error: commentsError },
+    { data: reactions, error: reactionsError }
+  ] = await Promise.all([
+    supabase.from('photos').select(PHOTO_COLUMNS).in('id', photoIds),
+    supabase.from('comments').select('photo_id').in('photo_id', photoIds),
+    supabase.from('reactions').select('photo_id').in('photo_id', photoIds)
+  ])
+
+  if (photosError) {
+    console.error('Error fetching duplicate photos:', photosError)
+    throw new Error(`Failed to fetch duplicate photos: ${photosError.message}`)
+  }
+
+  // The counts decide which photo is suggested as the keeper, so a missing
+  // count mustn't quietly read as none
+  const countsError = commentsError || reactionsError
+  if (countsError) {
+    console.error('Error counting duplicate photo activity:', countsError)
+    throw new Error(`Failed to count comments and reactions: ${countsError.message}`)
+  }
+
+  const countBy = (rows: { photo_id: string }[] | null) => {
+    const counts = new Map<string, number>()
+    rows?.forEach(row => counts.set(row.photo_id, (counts.get(row.photo_id) || 0) + 1))
+    return counts
+  }
+  const commentCounts = countBy(comments)
+  const reactionCounts = countBy(reactions)
+
+  const matches = new Map<string, string[]>()
+  pairs?.forEach((pair: { photo_id: string; duplicate_id: string }) => {
+    matches.set(pair.photo_id, [...(matches.get(pair.photo_id) || []), pair.duplicate_id])
+    matches.set(pair.duplicate_id, [...(matches.get(pair.duplicate_id) || []), pair.photo_id])
+  })
+
+  const photoMap = new Map(
+    (await withUrlsAndProfiles(photos || [], 'thumbnail')).map(photo => [photo.id, photo])
+  )
+
+  return clusterIds
+    .map(ids => ({
+      photos: ids
+        .filter(id => photoMap.has(id))
+        .map(id => ({
+          ...photoMap.get(id)!,
+          comment_count: commentCounts.get(id) || 0,
+          reaction_count: reactionCounts.get(id) || 0,
+          matches: matches.get(id) || []
+        }))
+        .sort((a, b) => a.uploaded_at.localeCompare(b.uploaded_at))
+    }))
+    .filter(cluster => cluster.photos.length > 1)
+    .sort((a, b) => b.photos.length - a.photos.length)
+}
+
+/**
+ * Count the photos uploaded before duplicate detection, which have no
+ * perceptual hash yet. Ones the backfill couldn't hash aren't counted.
+ */
+export async function getUnhashedPhotoCount(): Promise<number> {
+  const supabase = createClient()
+
+  const { count, error } = await supabase
+    .from('photos')
+    .select('id', { count: 'exact', head: true })
+    .is('deleted_at', null)
+    .is('perceptual_hash', null)
+    .is('perceptual_hash_failed_at', null)
+
+  if (error) {
+    console.error('Error counting unscanned photos:', error)
+    throw new Error(`Failed to count unscanned photos: ${error.message}`)
+  }
+
+  return count || 0
+}
+
+/**
+ * Work out perceptual hashes for older photos from their thumbnails, a
+ * batch at a time. Photos that can't be hashed are marked so they aren't
+ * fetched again. Returns how many were checked; 0 means none are left.
+ */
+export async function hashOlderPhotos(limit = 50): Promise<number> {
+  const supabase = createClient()
+
+  const { data: photos, error } = await supabase
+    .from('photos')
+    .select('id, file_path, medium_path, thumbnail_path')
+    .is('deleted_at', null)
+    .is('perceptual_hash', null)
+    .is('perceptual_hash_failed_at', null)
+    .limit(limit)
+
+  if (error) {
+    console.error('Error fetching unscanned photos:', error)
+    throw new Error(`Failed to fetch unscanned photos: ${error.message}`)
+  }
+
+  let checked = 0
+  for (const photo of (photos || []) as Pick<Photo, 'id' | 'file_path' | 'medium_path' | 'thumbnail_path'>[]) {
+    const url = await getSignedUrl(getPhotoVariantPath(photo, 'thumbnail'))
+    const response = url ? await fetch(url) : null
+    const hash = response?.ok ? await createPerceptualHash(await response.blob()) : null
+
+    if (!hash) {
+      console.error('Error hashing photo:', photo.id)
+    }
+
+    const { error: updateError } = hash
+      ? await supabase.rpc('set_photo_perceptual_hash', {
+          p_photo_id: photo.id,
+          p_perceptual_hash: hash
+        })
+      : await supabase.rpc('mark_perceptual_hash_failed', { p_photo_id: photo.id })
+
+    if (updateError) {
+      console.error('Error saving photo hash:', updateError)
+      throw new Error(`Failed to save photo hash: ${updateError.message}`)
+    }
+    checked++
+  }
+
+  return checked
+}
+
+/**
+ * Merge duplicates into the photo being kept. Comments, reactions and album
+ * places move over to it and the duplicates go to the trash.
+ */
+export async function mergeDuplicatePhotos(keepId: string, duplicateIds: string[]): Promise<Photo> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .rpc('merge_duplicate_photos', {
+      p_keep_id: keepId,
+      p_duplicate_ids: duplicateIds
+    })
+    .select(PHOTO_COLUMNS)
+    .single()
+
+  if (error) {
+    console.error('Error merging duplicate photos:', error)
+    throw new Error(`Failed to merge photos: ${error.message}`)
+  }
+
+  return data as Photo
+}
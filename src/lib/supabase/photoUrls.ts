@@ -0,0 +1,124 @@
+import { createClient } from './client'
+
+// How long signed photo URLs stay valid, in seconds
+export const SIGNED_URL_EXPIRY = 60 * 60
+
+// Cached URLs are re-signed once they have less than this left
+const REFRESH_MARGIN_MS = 5 * 60 * 1000
+
+// Paths asked for in the same tick are signed together, this many per request
+const MAX_BATCH_SIZE = 100
+
+interface CachedUrl {
+  url: string
+  expiresAt: number
+}
+
+// Module-level so every page and component in the tab shares one cache
+const urlCache = new Map<string, CachedUrl>()
+const queuedPaths = new Map<string, (url: string | null) => void>()
+const inFlightPaths = new Map<string, Promise<string | null>>()
+let flushScheduled = false
+
+function getCachedUrl(path: string): string | null {
+  const cached = urlCache.get(path)
+  if (cached && cached.expiresAt - REFRESH_MARGIN_MS > Date.now()) {
+    return cached.url
+  }
+  return null
+}
+
+/**
+ * Sign everything queued so far, in as few requests as possible
+ */
+async function flushQueue() {
+  flushScheduled = false
+  const batch = new Map(queuedPaths)
+  queuedPaths.clear()
+
+  const paths = Array.from(batch.keys())
+  const supabase = createClient()
+
+  for (let i = 0; i < paths.length; i += MAX_BATCH_SIZE) {
+    const chunk = paths.slice(i, i + MAX_BATCH_SIZE)
+    const signedAt = Date.now()
+
+    try {
+      const { data, error } = await supabase.storage
+        .from('family-photos')
+        .createSignedUrls(chunk, SIGNED_URL_EXPIRY)
+
+      if (error) {
+        console.error('Error creating signed URLs:', error)
+      }
+
+      const signed = new Map(
+        (data || [])
+          .filter(item => item.path && item.signedUrl && !item.error)
+          .map(item => [item.path!, item.signedUrl])
+      )
+
+      chunk.forEach(path => {
+        const url = signed.get(path) || null
+        if (url) {
+          urlCache.set(path, { url, expiresAt: signedAt + SIGNED_URL_EXPIRY * 1000 })
+        }
+        batch.get(path)!(url)
+      })
+    } catch (error) {
+      console.error('Error creating signed URLs:', error)
+      chunk.forEach(path => batch.get(path)!(null))
+    } finally {
+      chunk.forEach(path => inFlightPaths.delete(path))
+    }
+  }
+}
+
+function queuePath(path: string): Promise<string | null> {
+  const inFlight = inFlightPaths.get(path)
+  if (inFlight) {
+    return inFlight
+  }
+
+  let resolve!: (url: string | null) => void
+  const promise = new Promise<string | null>((res) => {
+    resolve = res
+  })
+  queuedPaths.set(path, resolve)
+  inFlightPaths.set(path, promise)
+
+  if (!flushScheduled) {
+    flushScheduled = true
+    setTimeout(flushQueue, 0)
+  }
+
+  return promise
+}
+
+/**
+ * Get signed URLs for many photos in the family-photos bucket. Cached URLs
+ * are reused until shortly before they expire; the rest are signed in batches.
+ */
+export async function getSignedUrls(paths: string[]): Promise<Map<string, string | null>> {
+  const uniquePaths = [...new Set(paths)]
+
+  const urls = await Promise.all(
+    uniquePaths.map(path => getCachedUrl(path) ?? queuePath(path))
+  )
+
+  return new Map(uniquePaths.map((path, index) => [path, urls[index]]))
+}
+
+/**
+ * Get a signed URL for one photo. Calls made together are still batched.
+ */
+export async function getSignedUrl(path: string): Promise<string | null> {
+  return getCachedUrl(path) ?? queuePath(path)
+}
+
+/**
+ * Forget a cached URL, e.g. after the browser failed to load it
+ */
+export function invalidateSignedUrl(path: string) {
+  urlCache.delete(path)
+}
@@ -0,0 +1,570 @@
+import { createClient } from './client'
+import { getSignedUrl, getSignedUrls } from './photoUrls'
+import { PROFILE_COLUMNS, type Profile } from './profiles'
+import { type CaptionEditPolicy } from './settings'
+import { type PhotoMetadata } from '@/lib/exif'
+import { startOfDay, type PhotoFilters } from '@/lib/photoFilters'
+
+export type MediaType = 'photo' | 'video'
+
+export interface Photo extends PhotoMetadata {
+  id: string
+  media_type: MediaType
+  filename: string
+  original_filename: string
+  caption: string | null
+  file_path: string // for a video, the clip itself; the smaller sizes are poster frames
+  thumbnail_path: string | null // null for photos uploaded before variants existed
+  medium_path: string | null
+  original_path: string | null // the untouched upload, when the uploader chose to keep it
+  original_file_size: number | null
+  placeholder: string | null // tiny JPEG data URL shown while the image loads
+  processing_profile: string | null // see processingProfiles; null for photos uploaded before profiles
+  output_format: string | null // MIME type the profile actually produced; null for videos and older photos
+  content_hash: string | null // SHA-256 of the original file
+  perceptual_hash: string | null // 64-bit difference hash, as hex
+  duration: number | null // seconds, videos only
+  uploaded_at: string
+  uploaded_by: string
+  deleted_at: string | null
+  photo_date: string // taken_at when known, otherwise uploaded_at
+}
+
+export interface PhotoWithProfile extends Photo {
+  imageUrl: string | null // signed URL for the variant the list was loaded with
+  uploader_profile: Profile | null
+}
+
+/**
+ * Stored sizes of each photo, smallest first
+ */
+export type PhotoVariant = 'thumbnail' | 'medium' | 'full'
+
+/**
+ * Feed orderings, named after the column they sort on: when a photo was
+ * added, or when it was taken (photo_date)
+ */
+export type PhotoSort = 'uploaded_at' | 'photo_date'
+
+/**
+ * Position of the last photo on a page, used as the keyset cursor for the next one.
+ * value is the photo's sort column.
+ */
+export interface PhotoCursor {
+  value: string
+  id: string
+}
+
+export interface PhotoPageOptions {
+  cursor?: PhotoCursor | null
+  sort?: PhotoSort
+  filters?: PhotoFilters
+  variant?: PhotoVariant
+  limit?: number
+}
+
+export interface PhotoYear {
+  year: number
+  photo_count: number
+}
+
+export interface PhotoPage {
+  photos: PhotoWithProfile[]
+  nextCursor: PhotoCursor | null
+}
+
+export const PHOTOS_PAGE_SIZE = 24
+
+// Trashed photos are purged for good after this many days
+export const TRASH_RETENTION_DAYS = 30
+
+/**
+ * The columns of a Photo, for selects. Listed rather than * so the
+ * full-text search_vector isn't sent along with every photo.
+ */
+export const PHOTO_COLUMNS = `
+  id, media_type, filename, original_filename, caption, file_path, thumbnail_path, medium_path,
+  original_path, original_file_size, placeholder, processing_profile, output_format, content_hash, perceptual_hash,
+  duration, uploaded_at, uploaded_by, deleted_at, photo_date, taken_at, camera_make, camera_model,
+  lens_model, width, height, exposure_time, f_number, iso, focal_length, gps_latitude, gps_longitude
+`
+
+/**
+ * Get a signed URL for a photo in the family-photos bucket
+ */
+export async function getPhotoUrl(filePath: string): Promise<string | null> {
+  return getSignedUrl(filePath)
+}
+
+/**
+ * Storage path of one size of a photo. Older photos only have the full
+ * size, so they fall back to it.
+ */
+export function getPhotoVariantPath(
+  photo: Pick<Photo, 'file_path' | 'thumbnail_path' | 'medium_path'>,
+  variant: PhotoVariant
+): string {
+  if (variant === 'thumbnail') {
+    return photo.thumbnail_path || photo.medium_path || photo.file_path
+  }
+  if (variant === 'medium') {
+    return photo.medium_path || photo.file_path
+  }
+  return photo.file_path
+}
+
+/**
+ * Get a short-lived link that downloads a photo's original file under
+ * its original name
+ */
+export async function getOriginalDownloadUrl(
+  photo: Pick<Photo, 'original_path' | 'original_filename'>
+): Promise<string> {
+  if (!photo.original_path) {
+    throw new Error('This photo has no original file')
+  }
+
+  const supabase = createClient()
+
+  const { data, error } = await supabase.storage
+    .from('family-photos')
+    .createSignedUrl(photo.original_path, 60, { download: photo.original_filename })
+
+  if (error) {
+    console.error('Error creating download link:', error)
+    throw new Error(`Failed to create download link: ${error.message}`)
+  }
+
+  return data.signedUrl
+}
+
+/**
+ * next/image props that show a photo's blurred preview until it loads
+ */
+export function getPlaceholderProps(photo: Pick<Photo, 'placeholder'> | null | undefined) {
+  return photo?.placeholder
+    ? { placeholder: 'blur' as const, blurDataURL: photo.placeholder }
+    : {}
+}
+
+/**
+ * Attach signed URLs (for the given size) and uploader profiles to a list of photos
+ */
+export async function withUrlsAndProfiles(
+  photos: Photo[],
+  variant: PhotoVariant = 'full'
+): Promise<PhotoWithProfile[]> {
+  if (photos.length === 0) {
+    return []
+  }
+
+  const supabase = createClient()
+
+  // Get profiles for the uploaders of these photos only
+  const uploaderIds = [...new Set(photos.map(photo => photo.uploaded_by))]
+  const { data: profiles } = await supabase
+    .from('profiles')
+    .select(PROFILE_COLUMNS)
+    .in('id', uploaderIds)
+
+  const profileMap = new Map(profiles?.map(profile => [profile.id, profile]) || [])
+  const urls = await getSignedUrls(photos.map(photo => getPhotoVariantPath(photo, variant)))
+
+  return photos.map(photo => ({
+    ...photo,
+    imageUrl: urls.get(getPhotoVariantPath(photo, variant)) || null,
+    uploader_profile: profileMap.get(photo.uploaded_by) || null
+  }))
+}
+
+/**
+ * PostgREST filter for the photos strictly before (older than) or after
+ * (newer than) a cursor in the given ordering
+ */
+function keysetFilter(sort: PhotoSort, cursor: PhotoCursor, direction: 'before' | 'after'): string {
+  const op = direction === 'before' ? 'lt' : 'gt'
+  return `${sort}.${op}."${cursor.value}",and(${sort}.eq."${cursor.value}",id.${op}.${cursor.id})`
+}
+
+/**
+ * Get one page of the photo feed, newest first.
+ *
+ * Pages are keyed on (sort column, id) rather than offsets so that photos
+ * uploaded while someone is scrolling don't shift or duplicate later pages.
+ */
+export async function getPhotosPage({
+  cursor = null,
+  sort = 'uploaded_at',
+  filters,
+  variant = 'thumbnail',
+  limit = PHOTOS_PAGE_SIZE
+}: PhotoPageOptions = {}): Promise<PhotoPage> {
+  const supabase = createClient()
+
+  // Related-table filters use empty embeds: !inner keeps only photos that
+  // have a matching row, and a plain embed filtered on null keeps only
+  // photos that have none
+  const embeds: string[] = []
+  if (filters?.reactedByMe) embeds.push('reactions!inner()')
+  if (filters?.hasComments) embeds.push('comments!inner()')
+  if (filters?.notInAlbum) embeds.push('album_photos()')
+
+  let query = supabase
+    .from('photos')
+    .select([PHOTO_COLUMNS, ...embeds].join(', '))
+    .is('deleted_at', null)
+    .order(sort, { ascending: false })
+    .order('id', { ascending: false })
+    .limit(limit + 1) // Fetch one extra row to know whether another page exists
+
+  if (cursor) {
+    query = query.or(keysetFilter(sort, cursor, 'before'))
+  }
+
+  if (filters?.uploader) {
+    query = query.eq('uploaded_by', filters.uploader)
+  }
+  // Date ranges are by when the photo was taken, whichever way the feed is sorted
+  if (filters?.from) {
+    query = query.gte('photo_date', startOfDay(filters.from))
+  }
+  if (filters?.to) {
+    query = query.lt('photo_date', startOfDay(filters.to, true))
+  }
+  if (filters?.reactedByMe) {
+    const { data: { user } } = await supabase.auth.getUser()
+    query = query.eq('reactions.user_id', user?.id ?? '')
+  }
+  if (filters?.notInAlbum) {
+    query = query.is('album_photos', null)
+  }
+
+  // The select string is built at runtime, so its row type can't be inferred
+  const { data, error } = await query.overrideTypes<Photo[], { merge: false }>()
+
+  if (error) {
+    console.error('Error fetching photos:', error)
+    throw new Error(`Failed to fetch photos: ${error.message}`)
+  }
+
+  const rows = data || []
+  const hasMore = rows.length > limit
+  const pageRows = hasMore ? rows.slice(0, limit) : rows
+  const lastRow = pageRows[pageRows.length - 1]
+
+  return {
+    photos: await withUrlsAndProfiles(pageRows, variant),
+    nextCursor: hasMore && lastRow
+      ? { value: lastRow[sort], id: lastRow.id }
+      : null
+  }
+}
+
+/**
+ * Cursor that starts a page at the newest photo from the given year
+ */
+export function getYearCursor(year: number): PhotoCursor {
+  return {
+    value: new Date(year + 1, 0, 1).toISOString(),
+    // Lowest possible ID, so nothing taken exactly at midnight on
+    // New Year's Day of the following year sneaks in
+    id: '00000000-0000-0000-0000-000000000000'
+  }
+}
+
+/**
+ * Get the years that have photos, by date taken, newest first. Years are
+ * counted in the browser's time zone, like the dates the timeline shows.
+ */
+export async function getPhotoYears(): Promise<PhotoYear[]> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase.rpc('get_photo_years', {
+    p_time_zone: Intl.DateTimeFormat().resolvedOptions().timeZone
+  })
+
+  if (error) {
+    console.error('Error fetching photo years:', error)
+    return []
+  }
+
+  return data || []
+}
+
+/**
+ * Get a single photo by ID with its signed URL and uploader profile
+ */
+export async function getPhoto(id: string): Promise<PhotoWithProfile | null> {
+  const supabase = createClient()
+
+  const { data: photo, error } = await supabase
+    .from('photos')
+    .select(PHOTO_COLUMNS)
+    .eq('id', id)
+    .is('deleted_at', null)
+    .single()
+
+  if (error) {
+    if (error.code === 'PGRST116') {
+      return null // Photo not found
+    }
+    console.error('Error fetching photo:', error)
+    throw new Error(`Failed to fetch photo: ${error.message}`)
+  }
+
+  const [photoWithProfile] = await withUrlsAndProfiles([photo])
+  return photoWithProfile
+}
+
+/**
+ * Get the IDs of the photos either side of a photo in the feed order.
+ * "previous" is the next newer photo and "next" the next older one.
+ */
+export async function getAdjacentPhotoIds(
+  photo: Photo,
+  sort: PhotoSort = 'uploaded_at'
+): Promise<{
+  previousId: string | null
+  nextId: string | null
+}> {
+  const supabase = createClient()
+  const cursor = { value: photo[sort], id: photo.id }
+
+  const [{ data: newer }, { data: older }] = await Promise.all([
+    supabase
+      .from('photos')
+      .select('id')
+      .is('deleted_at', null)
+      .or(keysetFilter(sort, cursor, 'after'))
+      .order(sort, { ascending: true })
+      .order('id', { ascending: true })
+      .limit(1),
+    supabase
+      .from('photos')
+      .select('id')
+      .is('deleted_at', null)
+      .or(keysetFilter(sort, cursor, 'before'))
+      .order(sort, { ascending: false })
+      .order('id', { ascending: false })
+      .limit(1)
+  ])
+
+  return {
+    previousId: newer?.[0]?.id || null,
+    nextId: older?.[0]?.id || null
+  }
+}
+
+export interface PhotoDuplicate {
+  photo: PhotoWithProfile
+  exact: boolean // byte-identical rather than just looking the same
+}
+
+/**
+ * Find photos already in the library that match files about to be
+ * uploaded. Returns the closest match for each file that has one, keyed
+ * by the file's position in the list.
+ */
+export async function findDuplicatePhotos(
+  hashes: Pick<Photo, 'content_hash' | 'perceptual_hash'>[]
+): Promise<Map<number, PhotoDuplicate>> {
+  if (hashes.length === 0) {
+    return new Map()
+  }
+
+  const supabase = createClient()
+
+  const { data: matches, error } = await supabase.rpc('find_duplicate_photos', {
+    p_content_hashes: hashes.map(hash => hash.content_hash),
+    p_perceptual_hashes: hashes.map(hash => hash.perceptual_hash)
+  })
+
+  if (error) {
+    console.error('Error finding duplicate photos:', error)
+    throw new Error(`Failed to find duplicate photos: ${error.message}`)
+  }
+
+  const duplicates: { input_index: number; photo_id: string; exact: boolean }[] = matches || []
+  if (duplicates.length === 0) {
+    return new Map()
+  }
+
+  const { data: photos, error: photosError } = await supabase
+    .from('photos')
+    .select(PHOTO_COLUMNS)
+    .in('id', [...new Set(duplicates.map(match => match.photo_id))])
+
+  if (photosError) {
+    console.error('Error fetching duplicate photos:', photosError)
+    throw new Error(`Failed to fetch duplicate photos: ${photosError.message}`)
+  }
+
+  const photoMap = new Map(
+    (await withUrlsAndProfiles(photos || [], 'thumbnail')).map(photo => [photo.id, photo])
+  )
+
+  return new Map(
+    duplicates
+      .filter(match => photoMap.has(match.photo_id))
+      .map(match => [match.input_index, { photo: photoMap.get(match.photo_id)!, exact: match.exact }])
+  )
+}
+
+/**
+ * Move a photo to the trash. It stays restorable until it is purged.
+ */
+export async function trashPhoto(id: string): Promise<void> {
+  const supabase = createClient()
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    throw new Error('User must be authenticated to delete photos')
+  }
+
+  const { error } = await supabase
+    .from('photos')
+    .update({ deleted_at: new Date().toISOString() })
+    .eq('id', id)
+    .eq('uploaded_by', user.id) // Only the uploader can trash a photo
+
+  if (error) {
+    console.error('Error trashing photo:', error)
+    throw new Error(`Failed to delete photo: ${error.message}`)
+  }
+}
+
+/**
+ * Restore a photo from the trash
+ */
+export async function restorePhoto(id: string): Promise<void> {
+  const supabase = createClient()
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    throw new Error('User must be authenticated to restore photos')
+  }
+
+  const { error } = await supabase
+    .from('photos')
+    .update({ deleted_at: null })
+    .eq('id', id)
+    .eq('uploaded_by', user.id)
+
+  if (error) {
+    console.error('Error restoring photo:', error)
+    throw new Error(`Failed to restore photo: ${error.message}`)
+  }
+}
+
+/**
+ * Get the current user's trashed photos, most recently deleted first
+ */
+export async function getTrashedPhotos(): Promise<PhotoWithProfile[]> {
+  const supabase = createClient()
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    return []
+  }
+
+  const { data, error } = await supabase
+    .from('photos')
+    .select(PHOTO_COLUMNS)
+    .eq('uploaded_by', user.id)
+    .not('deleted_at', 'is', null)
+    .order('deleted_at', { ascending: false })
+
+  if (error) {
+    console.error('Error fetching trashed photos:', error)
+    throw new Error(`Failed to fetch trash: ${error.message}`)
+  }
+
+  return withUrlsAndProfiles(data || [], 'thumbnail')
+}
+
+/**
+ * Days left before a trashed photo is purged
+ */
+export function getDaysUntilPurge(deletedAt: string): number {
+  const purgeAt = new Date(deletedAt).getTime() + TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000
+  return Math.max(0, Math.ceil((purgeAt - Date.now()) / (24 * 60 * 60 * 1000)))
+}
+
+export interface CaptionEdit {
+  id: string
+  photo_id: string
+  previous_caption: string | null
+  new_caption: string | null
+  edited_by: string
+  edited_at: string
+  editor_profile?: Profile | null
+}
+
+/**
+ * Whether a user may edit a photo's caption under the family's policy
+ */
+export function canEditCaption(
+  photo: Photo,
+  userId: string | null,
+  policy: CaptionEditPolicy
+): boolean {
+  if (!userId) return false
+  return policy === 'members' || photo.uploaded_by === userId
+}
+
+/**
+ * Change a photo's caption. The previous caption is kept in the history.
+ */
+export async function updatePhotoCaption(photoId: string, caption: string): Promise<Photo> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .rpc('update_photo_caption', {
+      p_photo_id: photoId,
+      p_caption: caption
+    })
+    .select(PHOTO_COLUMNS)
+    .single()
+
+  if (error) {
+    console.error('Error updating caption:', error)
+    throw new Error(`Failed to update caption: ${error.message}`)
+  }
+
+  return data as Photo
+}
+
+/**
+ * Get the caption edit history for a photo, newest first
+ */
+export async function getCaptionHistory(photoId: string): Promise<CaptionEdit[]> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('photo_caption_history')
+    .select('*')
+    .eq('photo_id', photoId)
+    .order('edited_at', { ascending: false })
+
+  if (error) {
+    console.error('Error fetching caption history:', error)
+    return []
+  }
+
+  if (!data || data.length === 0) {
+    return []
+  }
+
+  const editorIds = [...new Set(data.map(edit => edit.edited_by))]
+  const { data: profiles } = await supabase
+    .from('profiles')
+    .select(PROFILE_COLUMNS)
+    .in('id', editorIds)
+
+  const profileMap = new Map(profiles?.map(profile => [profile.id, profile]) || [])
+
+  return data.map(edit => ({
+    ...edit,
+    editor_profile: profileMap.get(edit.edited_by) || null
+  }))
+}
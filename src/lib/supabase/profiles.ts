@@ -9,6 +9,9 @@ export interface Profile {
   created_at: string
 }
 
+// The columns of a Profile, leaving out the full-text search_vector
+export const PROFILE_COLUMNS = 'id, email, full_name, avatar_url, created_at'
+
 export interface ProfileUpdate {
   full_name?: string | null
   avatar_url?: string | null
@@ -22,7 +25,7 @@ export async function getProfile(userId: string): Promise<Profile | null> {
   
   const { data, error } = await supabase
     .from('profiles')
-    .select('*')
+    .select(PROFILE_COLUMNS)
     .eq('id', userId)
     .single()
   
@@ -56,7 +59,7 @@ export async function updateProfile(userId: string, updates: ProfileUpdate): Pro
     .from('profiles')
     .update(updates)
     .eq('id', userId)
-    .select('*')
+    .select(PROFILE_COLUMNS)
     .single()
   
   if (error) {
@@ -141,7 +144,7 @@ export async function getProfiles(userIds: string[]): Promise<Profile[]> {
   
   const { data, error } = await supabase
     .from('profiles')
-    .select('*')
+    .select(PROFILE_COLUMNS)
     .in('id', userIds)
   
   if (error) {
@@ -165,4 +168,23 @@ export function getDisplayName(profile: Profile | null): string {
  */
 export function getAvatarUrl(profile: Profile | null): string | null {
   return profile?.avatar_url || null
-}
\ No newline at end of file
+}
+
+/**
+ * Get every profile, ordered by name (for pickers and filters)
+ */
+export async function getAllProfiles(): Promise<Profile[]> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('profiles')
+    .select(PROFILE_COLUMNS)
+    .order('full_name', { ascending: true })
+
+  if (error) {
+    console.error('Error fetching profiles:', error)
+    return []
+  }
+
+  return data || []
+}
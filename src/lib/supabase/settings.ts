@@ -0,0 +1,66 @@
+import { createClient } from './client'
+import { DEFAULT_PROCESSING_PROFILE, type ProcessingProfileId } from '@/lib/processingProfiles'
+
+export type CaptionEditPolicy = 'owner' | 'members'
+
+export interface FamilySettings {
+  caption_edit_policy: CaptionEditPolicy
+  default_processing_profile: ProcessingProfileId
+  updated_by: string | null
+  updated_at: string | null
+}
+
+export type FamilySettingsUpdate = Partial<Omit<FamilySettings, 'updated_by' | 'updated_at'>>
+
+// Used when the settings row can't be read (e.g. before the SQL has been run)
+export const DEFAULT_FAMILY_SETTINGS: FamilySettings = {
+  caption_edit_policy: 'owner',
+  default_processing_profile: DEFAULT_PROCESSING_PROFILE,
+  updated_by: null,
+  updated_at: null
+}
+
+/**
+ * Get the family-wide settings
+ */
+export async function getFamilySettings(): Promise<FamilySettings> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('family_settings')
+    .select('*')
+    .single()
+
+  if (error) {
+    console.error('Error fetching family settings:', error)
+    return DEFAULT_FAMILY_SETTINGS
+  }
+
+  return { ...DEFAULT_FAMILY_SETTINGS, ...data }
+}
+
+/**
+ * Update the family-wide settings
+ */
+export async function updateFamilySettings(updates: FamilySettingsUpdate): Promise<FamilySettings> {
+  const supabase = createClient()
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    throw new Error('User must be authenticated to change family settings')
+  }
+
+  const { data, error } = await supabase
+    .from('family_settings')
+    .update({ ...updates, updated_by: user.id })
+    .eq('id', true)
+    .select('*')
+    .single()
+
+  if (error) {
+    console.error('Error updating family settings:', error)
+    throw new Error(`Failed to update family settings: ${error.message}`)
+  }
+
+  return { ...DEFAULT_FAMILY_SETTINGS, ...data }
+}
@@ -0,0 +1,541 @@
+import { createClient } from '@/lib/supabase/client'
+import { extractPhotoMetadata } from '@/lib/exif'
+import {
+  createImageVariants,
+  createPlaceholder,
+  createPhotoHashes,
+  createContentHash,
+  createPerceptualHash,
+  type PhotoHashes
+} from '@/lib/imageProcessing'
+import { isVideoFile, getVideoSizeError, readVideoDetails } from '@/lib/videoProcessing'
+import { findDuplicatePhotos, type PhotoDuplicate, type PhotoVariant } from '@/lib/supabase/photos'
+import { addPhotosToAlbum } from '@/lib/supabase/albums'
+import {
+  getProcessingProfile,
+  getFormatExtension,
+  resolveOutputFormat,
+  DEFAULT_PROCESSING_PROFILE,
+  type ImageOutputFormat,
+  type ProcessingProfileId
+} from '@/lib/processingProfiles'
+
+/**
+ * Photo and video upload queue. Files are kept in IndexedDB until they're uploaded,
+ * so a reload or a dropped connection doesn't lose a batch. A few files
+ * upload at once, and failures are retried with backoff before giving up.
+ */
+
+export type UploadStatus =
+  | 'queued'
+  | 'processing'
+  | 'uploading'
+  | 'saving'
+  | 'done'
+  | 'failed'
+  | 'cancelled'
+
+export interface UploadItem {
+  id: string // also used as the new photo's ID, so a retried insert can't duplicate it
+  userId: string
+  file: File | null // dropped once the photo is saved
+  fileName: string // original name, for display
+  fileSize: number
+  storageName: string // name in storage, fixed up front so retries overwrite
+  caption: string | null
+  includeLocation: boolean
+  keepOriginal: boolean
+  processingProfile: ProcessingProfileId
+  outputFormat: ImageOutputFormat // what the profile produces in this browser
+  albumId: string | null // album the photo is added to once it's saved
+  hashes: PhotoHashes | null // made up front when the upload page checked for duplicates
+  status: UploadStatus
+  attempts: number
+  error: string | null
+  retryAt: number | null // when a failed attempt will be retried
+  createdAt: number
+}
+
+export interface NewUpload {
+  file: File
+  caption?: string | null
+  hashes?: PhotoHashes
+}
+
+const DB_NAME = 'family-photos-uploads'
+const STORE_NAME = 'uploads'
+
+const MAX_PARALLEL_UPLOADS = 2
+const MAX_ATTEMPTS = 5
+const RETRY_BASE_DELAY_MS = 2000
+const RETRY_MAX_DELAY_MS = 60 * 1000
+
+// Statuses where the item is being worked on right now
+const ACTIVE_STATUSES: UploadStatus[] = ['processing', 'uploading', 'saving']
+
+const items = new Map<string, UploadItem>()
+const listeners = new Set<(uploads: UploadItem[]) => void>()
+const running = new Set<string>()
+let currentUserId: string | null = null
+let loadPromise: Promise<void> | null = null
+let wakeTimer: ReturnType<typeof setTimeout> | null = null
+let dbPromise: Promise<IDBDatabase> | null = null
+
+// ===== IndexedDB =====
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1)
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'id' })
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+  }
+  return dbPromise
+}
+
+async function runTransaction<T>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase()
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME))
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+async function saveItem(item: UploadItem) {
+  try {
+    await runTransaction('readwrite', store => store.put(item))
+  } catch (error) {
+    // The queue still works for this session without persistence
+    console.error('Error saving upload to the queue:', error)
+  }
+}
+
+async function deleteItem(id: string) {
+  try {
+    await runTransaction('readwrite', store => store.delete(id))
+  } catch (error) {
+    console.error('Error removing upload from the queue:', error)
+  }
+}
+
+// ===== State =====
+
+/**
+ * Every upload in the queue, oldest first
+ */
+export function getUploads(): UploadItem[] {
+  return Array.from(items.values()).sort((a, b) => a.createdAt - b.createdAt)
+}
+
+/**
+ * Listen for queue changes. Returns a function that stops listening.
+ */
+export function subscribeToUploads(listener: (uploads: UploadItem[]) => void): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+function notify() {
+  const uploads = getUploads()
+  listeners.forEach(listener => listener(uploads))
+}
+
+async function updateItem(id: string, changes: Partial<UploadItem>) {
+  const item = items.get(id)
+  if (!item) return
+
+  const updated = { ...item, ...changes }
+  items.set(id, updated)
+  notify()
+  await saveItem(updated)
+}
+
+function isCancelled(id: string): boolean {
+  return items.get(id)?.status === 'cancelled'
+}
+
+/**
+ * Load queued uploads saved by an earlier visit. Anything that was mid-upload
+ * when the page closed starts again from the top.
+ */
+function loadSavedUploads(): Promise<void> {
+  if (!loadPromise) {
+    loadPromise = (async () => {
+      try {
+        const saved = await runTransaction<UploadItem[]>('readonly', store => store.getAll())
+        saved.forEach(item => {
+          if (items.has(item.id)) return
+          items.set(item.id, ACTIVE_STATUSES.includes(item.status)
+            ? { ...item, status: 'queued', retryAt: null }
+            : item)
+        })
+        notify()
+      } catch (error) {
+        console.error('Error loading saved uploads:', error)
+      }
+    })()
+  }
+  return loadPromise
+}
+
+// ===== Processing =====
+
+function getStoragePaths(item: UploadItem) {
+  // A video's smaller sizes are poster frames
+  const baseName = item.storageName.replace(/\.[^.]+$/, '')
+  const imageExt = getFormatExtension(item.outputFormat || 'image/jpeg')
+  const originalExt = item.fileName.includes('.') ? item.fileName.split('.').pop()!.toLowerCase() : 'jpg'
+  return {
+    filePath: `${item.userId}/${item.storageName}`,
+    mediumPath: `${item.userId}/medium/${baseName}.${imageExt}`,
+    thumbnailPath: `${item.userId}/thumbnails/${baseName}.${imageExt}`,
+    originalPath: `${item.userId}/originals/${baseName}.${originalExt}`
+  }
+}
+
+/**
+ * Whether the untouched file is stored too. Videos are never altered, so
+ * their stored file already is the original.
+ */
+function storesOriginal(item: UploadItem): boolean {
+  return Boolean(item.keepOriginal) && item.file !== null && !isVideoFile(item.file)
+}
+
+/**
+ * Name for a new upload in storage. Photos are stored in the processing
+ * profile's format; videos keep their own.
+ */
+function createStorageName(file: File, createdAt: number, format: ImageOutputFormat): string {
+  const fileExt = isVideoFile(file)
+    ? file.name.split('.').pop()?.toLowerCase() || 'mp4'
+    : getFormatExtension(format)
+  return `${createdAt}-${Math.random().toString(36).substring(7)}.${fileExt}`
+}
+
+interface PreparedUpload {
+  files: Record<PhotoVariant, File>
+  columns: Record<string, unknown> // photos columns that depend on the file
+}
+
+async function preparePhoto(item: UploadItem, file: File): Promise<PreparedUpload> {
+  // Read EXIF from the original; compression strips it
+  const metadata = await extractPhotoMetadata(file, { includeLocation: item.includeLocation })
+  const variants = await createImageVariants(file, getProcessingProfile(item.processingProfile), item.outputFormat)
+  const placeholder = await createPlaceholder(variants.thumbnail)
+  const hashes = item.hashes || await createPhotoHashes(file)
+
+  return {
+    files: variants,
+    columns: {
+      placeholder,
+      file_size: variants.full.size,
+      output_format: variants.full.type, // may not be the profile's own format
+      ...hashes,
+      ...metadata
+    }
+  }
+}
+
+async function prepareVideo(item: UploadItem, file: File): Promise<PreparedUpload> {
+  const { poster, duration, width, height } = await readVideoDetails(file)
+  const posterVariants = await createImageVariants(poster, getProcessingProfile(item.processingProfile), item.outputFormat)
+  const placeholder = await createPlaceholder(posterVariants.thumbnail)
+
+  return {
+    // The clip is uploaded as is
+    files: { full: file, medium: posterVariants.medium, thumbnail: posterVariants.thumbnail },
+    columns: {
+      media_type: 'video',
+      duration,
+      width,
+      height,
+      placeholder,
+      file_size: file.size,
+      content_hash: item.hashes?.content_hash || await createContentHash(file),
+      perceptual_hash: await createPerceptualHash(posterVariants.thumbnail)
+    }
+  }
+}
+
+async function removeStoredFiles(item: UploadItem) {
+  const { filePath, mediumPath, thumbnailPath, originalPath } = getStoragePaths(item)
+  await createClient().storage.from('family-photos').remove([filePath, mediumPath, thumbnailPath, originalPath])
+}
+
+/**
+ * Compress, upload and save one photo or video. Each step can safely run again:
+ * storage uploads overwrite and the insert uses a fixed photo ID.
+ */
+async function processUpload(id: string) {
+  const item = items.get(id)!
+  const supabase = createClient()
+
+  if (!item.file) {
+    throw new Error('The file is no longer available. Please add it again.')
+  }
+
+  await updateItem(id, { status: 'processing', error: null, retryAt: null })
+
+  const { files, columns } = isVideoFile(item.file)
+    ? await prepareVideo(item, item.file)
+    : await preparePhoto(item, item.file)
+
+  if (isCancelled(id)) return
+  await updateItem(id, { status: 'uploading' })
+
+  const { filePath, mediumPath, thumbnailPath, originalPath } = getStoragePaths(item)
+  const keepOriginal = storesOriginal(item)
+  const uploads = await Promise.all([
+    supabase.storage.from('family-photos').upload(filePath, files.full, { upsert: true }),
+    supabase.storage.from('family-photos').upload(mediumPath, files.medium, { upsert: true }),
+    supabase.storage.from('family-photos').upload(thumbnailPath, files.thumbnail, { upsert: true }),
+    ...(keepOriginal
+      ? [supabase.storage.from('family-photos').upload(originalPath, item.file, { upsert: true })]
+      : [])
+  ])
+  const uploadError = uploads.find(upload => upload.error)?.error
+
+  if (uploadError) {
+    throw new Error(`Storage upload failed: ${uploadError.message}`)
+  }
+
+  if (isCancelled(id)) {
+    await removeStoredFiles(item)
+    return
+  }
+  await updateItem(id, { status: 'saving' })
+
+  const { error: dbError } = await supabase
+    .from('photos')
+    .insert({
+      id: item.id,
+      filename: item.storageName,
+      original_filename: item.fileName,
+      caption: item.caption,
+      file_path: filePath,
+      medium_path: mediumPath,
+      thumbnail_path: thumbnailPath,
+      original_path: keepOriginal ? originalPath : null,
+      original_file_size: keepOriginal ? item.file.size : null,
+      processing_profile: getProcessingProfile(item.processingProfile).id,
+      uploaded_by: item.userId,
+      ...columns
+    })
+
+  // 23505 means an earlier attempt saved the row but we never heard back
+  if (dbError && dbError.code !== '23505') {
+    throw new Error(`Database insert failed: ${dbError.message}`)
+  }
+
+  if (item.albumId) {
+    // Safe to repeat: photos already in the album are left where they are
+    await addPhotosToAlbum(item.albumId, [item.id])
+  }
+
+  await updateItem(id, { status: 'done', file: null })
+}
+
+async function runUpload(id: string) {
+  try {
+    await processUpload(id)
+
+    // Cancelled mid-way: the file isn't needed any more
+    if (isCancelled(id)) {
+      await updateItem(id, { file: null })
+    }
+  } catch (error) {
+    console.error('Error uploading photo:', error)
+    const item = items.get(id)
+    if (item && item.status !== 'cancelled') {
+      const attempts = item.attempts + 1
+      const message = error instanceof Error ? error.message : 'Upload failed'
+
+      if (attempts >= MAX_ATTEMPTS || !item.file) {
+        await updateItem(id, { status: 'failed', attempts, error: message, retryAt: null })
+      } else {
+        const delay = Math.min(RETRY_BASE_DELAY_MS * 2 ** (attempts - 1), RETRY_MAX_DELAY_MS)
+        await updateItem(id, { status: 'queued', attempts, error: message, retryAt: Date.now() + delay })
+      }
+    }
+  } finally {
+    running.delete(id)
+    pumpQueue()
+  }
+}
+
+/**
+ * Start as many waiting uploads as there's room for, and set a timer for
+ * the next retry that isn't due yet
+ */
+function pumpQueue() {
+  if (wakeTimer) {
+    clearTimeout(wakeTimer)
+    wakeTimer = null
+  }
+  if (!currentUserId) return
+
+  const now = Date.now()
+  let nextRetryAt: number | null = null
+
+  for (const item of getUploads()) {
+    if (item.userId !== currentUserId || item.status !== 'queued' || running.has(item.id)) {
+      continue
+    }
+    if (item.retryAt && item.retryAt > now) {
+      nextRetryAt = Math.min(nextRetryAt ?? item.retryAt, item.retryAt)
+      continue
+    }
+    if (running.size >= MAX_PARALLEL_UPLOADS) {
+      break
+    }
+
+    running.add(item.id)
+    runUpload(item.id)
+  }
+
+  if (nextRetryAt !== null) {
+    wakeTimer = setTimeout(pumpQueue, nextRetryAt - now)
+  }
+}
+
+// Retry straight away when the connection comes back
+function handleOnline() {
+  items.forEach(item => {
+    if (item.status === 'queued' && item.retryAt) {
+      items.set(item.id, { ...item, retryAt: null })
+    }
+  })
+  pumpQueue()
+}
+
+// ===== Public API =====
+
+/**
+ * Start (or resume) uploading the signed-in user's queue
+ */
+export async function startUploadQueue(userId: string) {
+  if (currentUserId === null) {
+    window.addEventListener('online', handleOnline)
+  }
+  currentUserId = userId
+
+  await loadSavedUploads()
+  pumpQueue()
+}
+
+/**
+ * Hash files about to be queued and look for them in the library. Returns
+ * each file's hashes, to pass along with its upload, and the closest
+ * existing photo for each file that has one, keyed by its position.
+ */
+export async function findDuplicateUploads(files: File[]): Promise<{
+  hashes: PhotoHashes[]
+  duplicates: Map<number, PhotoDuplicate>
+}> {
+  // One at a time, so a big batch doesn't decode every image at once
+  const hashes: PhotoHashes[] = []
+  for (const file of files) {
+    hashes.push(await createPhotoHashes(file))
+  }
+  return { hashes, duplicates: await findDuplicatePhotos(hashes) }
+}
+
+/**
+ * Add photos and videos to the queue. They start uploading straight away,
+ * except videos over the size limit, which fail up front. With an album,
+ * each one is added to it once it's saved.
+ */
+export async function enqueueUploads(
+  userId: string,
+  uploads: NewUpload[],
+  {
+    includeLocation = false,
+    keepOriginal = false,
+    processingProfile = DEFAULT_PROCESSING_PROFILE,
+    albumId = null
+  }: {
+    includeLocation?: boolean
+    keepOriginal?: boolean
+    processingProfile?: ProcessingProfileId
+    albumId?: string | null
+  } = {}
+) {
+  const createdAt = Date.now()
+  const outputFormat = resolveOutputFormat(getProcessingProfile(processingProfile))
+
+  const newItems: UploadItem[] = uploads.map(({ file, caption, hashes }, index) => {
+    const sizeError = isVideoFile(file) ? getVideoSizeError(file) : null
+
+    return {
+      id: crypto.randomUUID(),
+      userId,
+      file: sizeError ? null : file,
+      fileName: file.name,
+      fileSize: file.size,
+      storageName: createStorageName(file, createdAt + index, outputFormat),
+      caption: caption?.trim() || null,
+      includeLocation,
+      keepOriginal,
+      processingProfile,
+      outputFormat,
+      albumId,
+      hashes: hashes || null,
+      status: sizeError ? 'failed' : 'queued',
+      attempts: 0,
+      error: sizeError,
+      retryAt: null,
+      createdAt: createdAt + index // keeps the chosen order
+    }
+  })
+
+  newItems.forEach(item => items.set(item.id, item))
+  notify()
+  await Promise.all(newItems.map(saveItem))
+
+  pumpQueue()
+}
+
+/**
+ * Stop an upload. One that's mid-way stops after its current step and
+ * removes anything it already stored.
+ */
+export async function cancelUpload(id: string) {
+  const item = items.get(id)
+  if (!item || item.status === 'done' || item.status === 'saving') return
+
+  await updateItem(id, { status: 'cancelled', file: running.has(id) ? item.file : null, retryAt: null })
+}
+
+/**
+ * Try a failed upload again from the start
+ */
+export async function retryUpload(id: string) {
+  const item = items.get(id)
+  if (!item || item.status !== 'failed') return
+
+  await updateItem(id, { status: 'queued', attempts: 0, error: null, retryAt: null })
+  pumpQueue()
+}
+
+/**
+ * Remove finished and cancelled uploads from the list
+ */
+export async function clearFinishedUploads() {
+  const finished = getUploads().filter(item =>
+    (item.status === 'done' || item.status === 'cancelled') && !running.has(item.id)
+  )
+
+  finished.forEach(item => items.delete(item.id))
+  notify()
+  await Promise.all(finished.map(item => deleteItem(item.id)))
+}
@@ -44,4 +44,18 @@ export function formatTimeAgo(timestamp: string): string {
  */
 export function getUserEmail(user: { email?: string } | null): string {
   return user?.email || 'Unknown user'
-}
\ No newline at end of file
+}
+
+/**
+ * Format a video length in seconds as m:ss (or h:mm:ss)
+ */
+export function formatDuration(seconds: number): string {
+  const total = Math.max(0, Math.round(seconds))
+  const hours = Math.floor(total / 3600)
+  const minutes = Math.floor((total % 3600) / 60)
+  const secs = String(total % 60).padStart(2, '0')
+
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}`
+    : `${minutes}:${secs}`
+}
@@ -0,0 +1,95 @@
+// Largest clip that can be uploaded
+export const MAX_VIDEO_SIZE_MB = 50
+
+/**
+ * Whether a file is a video clip. Some browsers leave the type of .mov
+ * files empty, so the extension counts too.
+ */
+export const isVideoFile = (file: File): boolean => {
+  return file.type.startsWith('video/') || /\.(mp4|m4v|mov|webm)$/i.test(file.name)
+}
+
+/**
+ * Why a video can't be uploaded, or null if it can
+ */
+export const getVideoSizeError = (file: File): string | null => {
+  return file.size > MAX_VIDEO_SIZE_MB * 1024 * 1024
+    ? `Videos can be up to ${MAX_VIDEO_SIZE_MB}MB (this one is ${(file.size / 1024 / 1024).toFixed(0)}MB)`
+    : null
+}
+
+export interface VideoDetails {
+  poster: File // a JPEG frame from near the start
+  duration: number // seconds
+  width: number
+  height: number
+}
+
+// Where the poster frame is taken from, in seconds, for clips long enough
+const POSTER_FRAME_TIME = 1
+// Give up on a clip that hasn't produced a frame by then. Some browsers
+// load a format's metadata but never seek in it (e.g. HEVC .mov files).
+const READ_TIMEOUT_MS = 20 * 1000
+
+/**
+ * Read a clip's length and size and grab a poster frame, by loading it
+ * into an off-screen <video>
+ */
+export const readVideoDetails = async (file: File): Promise<VideoDetails> => {
+  return new Promise((resolve, reject) => {
+    const video = document.createElement('video')
+    const objectUrl = URL.createObjectURL(file)
+
+    const fail = () => {
+      clearTimeout(timeout)
+      video.onloadedmetadata = null
+      video.onseeked = null
+      video.onerror = null
+      video.removeAttribute('src')
+      URL.revokeObjectURL(objectUrl)
+      reject(new Error(`Couldn't read ${file.name}. This browser may not support its format.`))
+    }
+    const timeout = setTimeout(fail, READ_TIMEOUT_MS)
+
+    video.onloadedmetadata = () => {
+      if (!video.videoWidth || !Number.isFinite(video.duration)) {
+        fail()
+        return
+      }
+      // Skip past any black first frame, but stay inside very short clips
+      video.currentTime = Math.min(POSTER_FRAME_TIME, video.duration / 2)
+    }
+
+    video.onseeked = () => {
+      clearTimeout(timeout)
+      const canvas = document.createElement('canvas')
+      canvas.width = video.videoWidth
+      canvas.height = video.videoHeight
+      canvas.getContext('2d')!.drawImage(video, 0, 0, canvas.width, canvas.height)
+      URL.revokeObjectURL(objectUrl)
+
+      canvas.toBlob((blob) => {
+        if (!blob) {
+          reject(new Error(`Couldn't make a preview for ${file.name}`))
+          return
+        }
+        resolve({
+          poster: new File([blob], file.name.replace(/\.[^.]+$/, '') + '.jpg', {
+            type: 'image/jpeg',
+            lastModified: Date.now()
+          }),
+          duration: video.duration,
+          width: video.videoWidth,
+          height: video.videoHeight
+        })
+      }, 'image/jpeg', 0.9)
+    }
+
+    video.onerror = fail
+
+    video.muted = true
+    video.playsInline = true
+    video.preload = 'auto'
+    video.src = objectUrl
+  })
+}
@@ -0,0 +1,36 @@
+// Types for the /api/search endpoint
+
+import type { Photo } from '@/lib/supabase/photos'
+import type { Profile } from '@/lib/supabase/profiles'
+import type { Album } from '@/lib/supabase/albums'
+
+export interface SearchFilters {
+  q: string
+  uploader?: string // user ID of the uploader (or album creator)
+  from?: string // YYYY-MM-DD, inclusive
+  to?: string // YYYY-MM-DD, inclusive
+}
+
+export type SearchMatchSource = 'caption' | 'comment' | 'uploader'
+
+// Headlines wrap each matched word in these characters
+export const HIGHLIGHT_START = '\u0001'
+export const HIGHLIGHT_END = '\u0002'
+
+export interface PhotoSearchResult {
+  // No signed URL: the page signs thumbnails itself, through the shared cache
+  photo: Photo & { uploader_profile: Profile | null }
+  matched_in: SearchMatchSource
+  headline: string
+}
+
+export interface AlbumSearchResult {
+  album: Album
+  name_headline: string
+  description_headline: string
+}
+
+export interface SearchResponse {
+  photos: PhotoSearchResult[]
+  albums: AlbumSearchResult[]
+}